@@ -1,36 +1,129 @@
-import DiffView, { DiffFile } from '@/components/DiffView';
+import BranchDetails from '@/components/BranchDetails';
+import DiffView, { DiffFile, FileContents } from '@/components/DiffView';
 import FileGroup from '@/components/FileGroup';
+import LLMProgress from '@/components/LLMProgress';
 import Settings from '@/components/Settings';
-import fs from '@/utils/fs-adapter';
-import { FileDiff, checkout, createBranch, getBranches, getChangedFiles, getCurrentBranch, getFileContent, initializeRepo } from '@/utils/git-engine';
-import { callLLM, loadLLMConfig, saveLLMConfig, type LLMProvider } from '@/utils/llm-service';
-import git from 'isomorphic-git';
-import { useEffect, useState } from 'react';
-import { Button, Platform, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import SplitReview, { ReviewDecision, ReviewFile } from '@/components/SplitReview';
+import { GroupProposal, proposeGroups } from '@/utils/auto-group';
+import { BranchDescription, describeBranch } from '@/utils/branch-description';
+import { DiffFilters, filterChangedFiles, loadDiffFilters, saveDiffFilters } from '@/utils/diff-filters';
+import { applyHunks, applyHunksOnto, computeHunks } from '@/utils/diff-hunks';
+import { FileDiff, TreeChange, commitFilesToBranch, getBranches, getChangedFiles, getCurrentBranch, getFileBlob, getFileContent, getFileVersion, getMergeBase, initializeRepo, isBinaryBlob, markFormattingChanges, matchLineEndings } from '@/utils/git-engine';
+import { GroupingStrategy, groupFiles, loadGroupRules, parseGroupRules, saveGroupRules } from '@/utils/group-heuristics';
+import { ImportGraph, buildImportGraph, findDependencyWarnings } from '@/utils/import-graph';
+import { buildFileInput, isLLMConfigured, loadLLMConfig, runLLMJobs, saveLLMConfig, splitFileWithLLM, type LLMConfig, type LLMJobEvent, type LLMResponseFormat } from '@/utils/llm-service';
+import { CoverageIssue, verifySplits } from '@/utils/split-verify';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Button, Platform, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+interface SplitBranch {
+    branch: string;
+    // The group as it was when the branch was built
+    group: Group;
+    // Groups already applied in the branch's parent (earlier groups of a stack)
+    ancestors: Group[];
+}
+
+// An LLM-rewritten file of a group, waiting to be accepted or replaced by a fallback
+interface Proposal extends ReviewFile {
+    // Changes that only go in together with this file, e.g. removing a renamed file's old path
+    related: TreeChange[];
+    // How the LLM replied: a patch applied onto the base already has the target's line endings
+    format: LLMResponseFormat;
+}
+
+interface PendingReview {
+    group: Group;
+    parent: string;
+    ancestors: Group[];
+    // Changes that need no review
+    changes: TreeChange[];
+    proposals: Proposal[];
+}
+
+// A group's branch whose name and commit message are waiting to be confirmed
+interface PendingCommit {
+    group: Group;
+    parent: string;
+    ancestors: Group[];
+    changes: TreeChange[];
+    description: BranchDescription;
+}
 
 interface Group {
     id: string;
     name: string;
     prompt: string;
     files: string[];
+    // Files split by hunk: path -> indices of the hunks this group takes. Files not listed here are taken whole.
+    hunks: Record<string, number[]>;
     useLLM: boolean;
 }
 
+const toBranchName = (name: string) => name.replace(/\s+/g, '-').toLowerCase();
+
+const defaultDescription = (group: Group): BranchDescription => ({
+    branch: toBranchName(group.name),
+    message: `Split: ${group.name}\n\nPrompt: ${group.prompt}`,
+    pullRequest: '',
+});
+
+const PREVIEW_INTERVAL_MS = 150;
+
+// What the LLM has written so far for a file, next to the base version it started from
+interface LLMOutput {
+    base: string;
+    text: string;
+}
+
 export default function App() {
     const [repoLoaded, setRepoLoaded] = useState(false);
     const [branches, setBranches] = useState<string[]>([]);
     const [currentBranch, setCurrentBranch] = useState('');
     const [baseBranch, setBaseBranch] = useState('main');
-    const [files, setFiles] = useState<FileDiff[]>([]);
+    const [mergeBase, setMergeBase] = useState('');
+    // Every changed file; `files` is what the diff filters leave of them. Hidden files still go
+    // into the remainder branch.
+    const [changedFiles, setChangedFiles] = useState<FileDiff[]>([]);
+    const [diffFilters, setDiffFilters] = useState(() => loadDiffFilters());
+    const files = useMemo(() => filterChangedFiles(changedFiles, diffFilters), [changedFiles, diffFilters]);
+    // Which changed files each changed JS/TS file imports, for dependency warnings between groups
+    const [importGraph, setImportGraph] = useState<ImportGraph>(new Map());
+    // Counts diff loads, so results that arrive after another load started are dropped
+    const diffRequest = useRef(0);
     const [error, setError] = useState('');
     const [loading, setLoading] = useState(false);
 
     const [groups, setGroups] = useState<Group[]>([]);
+    // Branches created from groups, in creation order
+    const [splits, setSplits] = useState<SplitBranch[]>([]);
+    const [stackRemainder, setStackRemainder] = useState(true);
+    // In stack mode each group's branch is created on top of the previous group's branch
+    const [stackMode, setStackMode] = useState(false);
+    const [coverageIssues, setCoverageIssues] = useState<CoverageIssue[] | null>(null);
+    // Groups still to build while a stack is being created, or null when none is
+    const stackQueue = useRef<Group[] | null>(null);
+    // Per-file status of the LLM requests for the branch being built
+    const [llmJobs, setLlmJobs] = useState<LLMJobEvent[] | null>(null);
+    const llmAbort = useRef<AbortController | null>(null);
+    // Per-file controllers, so a single streaming request can be stopped
+    const llmJobAborts = useRef(new Map<string, AbortController>());
+    // Streamed LLM output so far, by path. The ref takes every update; the state follows it at most
+    // every PREVIEW_INTERVAL_MS so the preview diff isn't recomputed for each token.
+    const llmStream = useRef<Record<string, LLMOutput>>({});
+    const llmStreamTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const [llmOutput, setLlmOutput] = useState<Record<string, LLMOutput>>({});
+    const [llmPreviewPath, setLlmPreviewPath] = useState<string | null>(null);
+    // A group's branch waiting for its LLM results to be reviewed
+    const [review, setReview] = useState<PendingReview | null>(null);
+    const [pendingCommit, setPendingCommit] = useState<PendingCommit | null>(null);
     const [selectedFiles, setSelectedFiles] = useState<Set<string>>(new Set());
+    const [groupingStrategy, setGroupingStrategy] = useState<GroupingStrategy | 'llm'>('llm');
+    // Glob rules for the 'rules' strategy, one `<glob> => <group>` per line
+    const [groupRules, setGroupRules] = useState(() => loadGroupRules());
 
     const [focusedFile, setFocusedFile] = useState<string | null>(null);
     const [diffData, setDiffData] = useState<DiffFile[]>([]);
-    const [diffLoading, setDiffLoading] = useState(false);
 
     const [showSettings, setShowSettings] = useState(false);
     const [llmConfig, setLlmConfig] = useState(() => loadLLMConfig());
@@ -71,20 +164,61 @@ export default function App() {
 
     const loadDiff = async (base: string, target: string) => {
         if (!base || !target) return;
+        const request = ++diffRequest.current;
         setLoading(true);
         try {
+            const forkPoint = await getMergeBase(base, target);
             const changes = await getChangedFiles(base, target);
-            setFiles(changes);
+            // Finding formatting-only changes reads every changed file, so it only holds up loading
+            // when a filter hides them; otherwise their badges show up once it's done
+            const filtering = diffFilters.ignoreWhitespace || diffFilters.ignoreLineEndings;
+            const marked = filtering ? await markFormattingChanges(changes, forkPoint, target) : changes;
+            // Another base/target pair was picked meanwhile; its load sets the state
+            if (request !== diffRequest.current) return;
+
+            setMergeBase(forkPoint);
+            setChangedFiles(marked);
+            if (!filtering) {
+                markFormattingChanges(changes, forkPoint, target).then(withBadges => {
+                    if (request === diffRequest.current) setChangedFiles(withBadges);
+                }).catch(e => console.warn('Error reading formatting changes:', e));
+            }
+            setImportGraph(new Map());
+            // Only feeds warnings, so it loads in the background and failures are just logged
+            buildImportGraph(target, changes).then(graph => {
+                if (request === diffRequest.current) setImportGraph(graph);
+            }).catch(e => console.warn('Error reading imports:', e));
+            // Splits made for another base/target pair can't be verified against this one
+            setSplits([]);
+            setCoverageIssues(null);
             setFocusedFile(null);
             setDiffData([]);
         } catch (e: any) {
+            if (request !== diffRequest.current) return;
+            setMergeBase('');
             setError("Error loading diff: " + e.message);
         } finally {
-            setLoading(false);
+            if (request === diffRequest.current) setLoading(false);
         }
     };
 
-    const handleViewFile = async (path: string) => {
+    // Renamed and copied files are diffed against their source path in the base tree
+    const originalPath = (path: string) => changedFiles.find(f => f.path === path)?.oldPath ?? path;
+
+    const updateDiffFilters = (changes: Partial<DiffFilters>) => {
+        const next = { ...diffFilters, ...changes };
+        setDiffFilters(next);
+        saveDiffFilters(next);
+    };
+
+    // DiffView fetches contents itself as each file scrolls into view
+    const loadDiffFile = async (file: DiffFile): Promise<FileContents> => {
+        const before = await getFileVersion(mergeBase, file.oldPath ?? file.path);
+        const after = await getFileVersion(currentBranch, file.path);
+        return { original: before?.text ?? '', modified: after?.text ?? '', before, after };
+    };
+
+    const handleViewFile = (path: string) => {
         setFocusedFile(path);
         // If the file is not in selectedFiles, we show it individually.
         // If it IS in selectedFiles, the useEffect below will handle it (or we can just let it be).
@@ -96,45 +230,20 @@ export default function App() {
         // 2. If NO files are selected, show the currently "focused" (clicked) file.
 
         if (selectedFiles.size === 0) {
-            setDiffLoading(true);
-            try {
-                const original = await getFileContent(baseBranch, path);
-                const modified = await getFileContent(currentBranch, path);
-                setDiffData([{ path, original, modified }]);
-            } catch (e: any) {
-                console.error("Error loading file content:", e);
-            } finally {
-                setDiffLoading(false);
-            }
+            setDiffData([{ path, oldPath: originalPath(path) }]);
         }
     };
 
     useEffect(() => {
-        const loadSelectedDiffs = async () => {
-            if (selectedFiles.size > 0) {
-                setDiffLoading(true);
-                try {
-                    const promises = Array.from(selectedFiles).map(async (path) => {
-                        const original = await getFileContent(baseBranch, path);
-                        const modified = await getFileContent(currentBranch, path);
-                        return { path, original, modified };
-                    });
-                    const results = await Promise.all(promises);
-                    setDiffData(results);
-                } catch (e) {
-                    console.error("Error loading selected diffs:", e);
-                } finally {
-                    setDiffLoading(false);
-                }
-            } else if (focusedFile) {
-                // Fallback to focused file if selection is cleared
-                handleViewFile(focusedFile);
-            } else {
-                setDiffData([]);
-            }
-        };
-        loadSelectedDiffs();
-    }, [selectedFiles, baseBranch, currentBranch]);
+        if (selectedFiles.size > 0) {
+            setDiffData(Array.from(selectedFiles).map(path => ({ path, oldPath: originalPath(path) })));
+        } else if (focusedFile) {
+            // Fallback to focused file if selection is cleared
+            handleViewFile(focusedFile);
+        } else {
+            setDiffData([]);
+        }
+    }, [selectedFiles, mergeBase, currentBranch]);
 
     useEffect(() => {
         if (repoLoaded) {
@@ -158,6 +267,7 @@ export default function App() {
             name: `Group ${groups.length + 1}`,
             prompt: '',
             files: Array.from(selectedFiles),
+            hunks: {},
             useLLM: true,
         };
         setGroups([...groups, newGroup]);
@@ -169,67 +279,395 @@ export default function App() {
     };
 
     const removeFileFromGroup = (groupId: string, file: string) => {
-        setGroups(groups.map(g => g.id === groupId ? { ...g, files: g.files.filter(f => f !== file) } : g));
+        setGroups(groups.map(g => {
+            if (g.id !== groupId) return g;
+            const { [file]: _removed, ...hunks } = g.hunks;
+            return { ...g, files: g.files.filter(f => f !== file), hunks };
+        }));
+    };
+
+    const getHunkGroup = (path: string, hunkIndex: number) => {
+        return groups.find(g => g.files.includes(path) && (g.hunks[path]?.includes(hunkIndex) ?? true))?.id;
+    };
+
+    // Moves one hunk of a file into a group (or out of all groups when groupId is null).
+    // A group that held the whole file keeps every other hunk.
+    const assignHunk = (path: string, hunkIndex: number, hunkCount: number, groupId: string | null) => {
+        setGroups(groups.map(g => {
+            const owned = g.files.includes(path)
+                ? g.hunks[path] ?? Array.from({ length: hunkCount }, (_, i) => i)
+                : [];
+            const next = g.id === groupId
+                ? [...new Set([...owned, hunkIndex])].sort((a, b) => a - b)
+                : owned.filter(i => i !== hunkIndex);
+
+            const { [path]: _previous, ...hunks } = g.hunks;
+            if (next.length === 0) {
+                return { ...g, files: g.files.filter(f => f !== path), hunks };
+            }
+            return {
+                ...g,
+                files: g.files.includes(path) ? g.files : [...g.files, path],
+                hunks: next.length === hunkCount ? hunks : { ...hunks, [path]: next },
+            };
+        }));
     };
 
     const deleteGroup = (id: string) => {
         setGroups(groups.filter(g => g.id !== id));
     };
 
+    // Works out a group's changes relative to the merge-base. Files the LLM rewrites come back as
+    // proposals, to be accepted or replaced before anything is committed.
+    const showLLMOutput = (path: string, base: string, text: string) => {
+        llmStream.current[path] = { base, text };
+        if (llmStreamTimer.current) return;
+        llmStreamTimer.current = setTimeout(() => {
+            llmStreamTimer.current = null;
+            setLlmOutput({ ...llmStream.current });
+        }, PREVIEW_INTERVAL_MS);
+    };
+
+    // A file's text in `parent`: at its path, or at its source path while the parent doesn't have
+    // the rename or copy yet
+    const readParentContent = async (parent: string, path: string) => {
+        const blob = await getFileBlob(parent, path) ?? await getFileBlob(parent, originalPath(path));
+        return blob ? Buffer.from(blob).toString('utf8') : '';
+    };
+
+    // `ancestors` are the groups already applied in `parent`: files they changed are built on top of
+    // the parent's version, so stacking doesn't undo their changes.
+    const collectChanges = async (group: Group, parent: string, ancestors: Group[]) => {
+        const changes: TreeChange[] = [];
+        const proposals: Proposal[] = [];
+
+        for (const filePath of group.files) {
+            // A rename is one entry, so moving the file also drops the old path in the same branch
+            const change = changedFiles.find(f => f.path === filePath);
+            const related: TreeChange[] = change?.status === 'renamed' && change.oldPath
+                ? [{ path: change.oldPath, content: null }]
+                : [];
+
+            const selectedHunks = group.hunks[filePath];
+            // Keeps the target's executable bit or symlink type
+            const mode = change?.mode;
+
+            if (change?.status === 'deleted' && !selectedHunks) {
+                changes.push(...related, { path: filePath, content: null });
+                continue;
+            }
+
+            // Read content from target branch
+            const blob = await getFileBlob(currentBranch, filePath) ?? new Uint8Array();
+
+            // Binary (and non UTF-8) files can't be edited as text, so they are copied byte for byte; so are symlinks
+            if (isBinaryBlob(blob) || mode === '120000') {
+                changes.push(...related, { path: filePath, content: blob, mode });
+                continue;
+            }
+
+            const content = Buffer.from(blob).toString('utf8');
+
+            if (selectedHunks) {
+                // Hunk picks are explicit, so apply exactly those and skip the LLM
+                const original = await getFileContent(mergeBase, originalPath(filePath));
+                const owners = ancestors.filter(a => a.files.includes(filePath));
+                if (owners.every(a => a.hunks[filePath])) {
+                    // Hunk indices refer to the merge-base diff, so the ancestors' picks are replayed with this group's
+                    const inherited = owners.flatMap(a => a.hunks[filePath]);
+                    changes.push(...related, { path: filePath, content: applyHunks(original, content, [...inherited, ...selectedHunks]), mode });
+                } else {
+                    // An ancestor took the whole file, maybe as rewritten by the LLM: add the picks to its version
+                    const current = await readParentContent(parent, filePath);
+                    const picked = current === content ? content : applyHunksOnto(current, original, content, selectedHunks);
+                    if (picked === null) {
+                        throw new Error(`The picked hunks of ${filePath} don't apply on top of the earlier groups' version of it`);
+                    }
+                    changes.push(...related, { path: filePath, content: picked, mode });
+                }
+            } else if (group.useLLM && isLLMConfigured(llmConfig)) {
+                // Use LLM if configured and enabled; the requests go out together below
+                const original = await readParentContent(parent, filePath);
+                proposals.push({ path: filePath, base: original, target: content, proposed: null, rejected: [], related, format: llmConfig?.responseFormat ?? 'file' });
+            } else {
+                changes.push(...related, { path: filePath, content: blob, mode });
+            }
+        }
+
+        if (proposals.length > 0 && isLLMConfigured(llmConfig)) {
+            const config = llmConfig;
+            const controller = new AbortController();
+            llmAbort.current = controller;
+            llmStream.current = {};
+            setLlmOutput({});
+            setLlmPreviewPath(null);
+            setLlmJobs(proposals.map(p => ({ id: p.path, status: 'pending', attempt: 0 })));
+
+            const results = await runLLMJobs(
+                proposals.map(p => ({
+                    id: p.path,
+                    run: async (signal: AbortSignal) => {
+                        const fileController = new AbortController();
+                        const abort = () => fileController.abort();
+                        signal.addEventListener('abort', abort);
+                        llmJobAborts.current.set(p.path, fileController);
+                        try {
+                            return await splitFileWithLLM(group.prompt, buildFileInput(p.path, p.base, p.target), config, fileController.signal, text => showLLMOutput(p.path, p.base, text));
+                        } catch (e: any) {
+                            if (fileController.signal.aborted && !signal.aborted) throw new Error('Stopped');
+                            throw e;
+                        } finally {
+                            signal.removeEventListener('abort', abort);
+                            llmJobAborts.current.delete(p.path);
+                        }
+                    },
+                })),
+                {
+                    concurrency: config.concurrency,
+                    signal: controller.signal,
+                    onStatus: (event) => setLlmJobs(prev => prev && prev.map(j => j.id === event.id ? event : j)),
+                },
+            );
+            llmAbort.current = null;
+            if (controller.signal.aborted) {
+                throw new Error('Cancelled');
+            }
+
+            for (const proposal of proposals) {
+                const result = results.get(proposal.path);
+                if (result?.ok) {
+                    proposal.proposed = result.value.content;
+                    proposal.rejected = result.value.rejected;
+                } else {
+                    console.warn('LLM processing failed:', result?.error.message);
+                    proposal.error = result?.error.message;
+                }
+            }
+        }
+
+        return { changes, proposals };
+    };
+
+    // Turns a reviewed proposal into the changes to commit
+    const resolveProposal = async (proposal: Proposal, decision: ReviewDecision, parent: string): Promise<TreeChange[]> => {
+        const { path, related } = proposal;
+        const mode = changedFiles.find(f => f.path === path)?.mode;
+        switch (decision.action) {
+            case 'accept': {
+                const content = decision.content ?? '';
+                return [...related, { path, content: proposal.format === 'patch' ? content : matchLineEndings(content, proposal.target), mode }];
+            }
+            case 'target':
+                return [...related, { path, content: proposal.target, mode }];
+            case 'base':
+                // Keep the parent's version. A renamed or copied file the parent doesn't have yet stays at
+                // its old path, so the new one goes away.
+                return [{ path, content: await getFileBlob(parent, path) }];
+            case 'exclude':
+                return [];
+        }
+    };
+
+    // Commits changes on top of `parent` and points a new branch at it.
+    // This writes objects and a ref directly; HEAD and the working directory are not touched.
+    const commitBranch = async (group: Group, parent: string, ancestors: Group[], changes: TreeChange[], description = defaultDescription(group)): Promise<SplitBranch> => {
+        const branchName = description.branch;
+        await commitFilesToBranch(
+            branchName,
+            parent,
+            changes,
+            description.message,
+            { name: 'p-split', email: 'p-split@local' },
+        );
+
+        const split = { branch: branchName, group, ancestors };
+        setSplits(prev => [...prev, split]);
+        setCoverageIssues(null);
+        return split;
+    };
+
+    // Commits a single group's branch. When the LLM is set to describe branches, it first drafts the
+    // branch name, commit message and PR description, which the user confirms before anything is
+    // committed; the branch is then created from handleConfirmDetails and null is returned.
+    const finishBranch = async (group: Group, parent: string, ancestors: Group[], changes: TreeChange[]): Promise<SplitBranch | null> => {
+        if (!llmConfig?.describeBranches || !isLLMConfigured(llmConfig)) {
+            return await commitBranch(group, parent, ancestors, changes);
+        }
+        const fallback = defaultDescription(group);
+        let description = fallback;
+        try {
+            description = await describeBranch(group.name, group.prompt, parent, changes, fallback, llmConfig);
+        } catch (e: any) {
+            setError(`Error describing branch: ${e.message}. Using the default name and message.`);
+        }
+        setPendingCommit({ group, parent, ancestors, changes, description });
+        return null;
+    };
+
+    // Where a group's branch goes: on the merge-base, or in stack mode on the previous group's branch
+    const getStackParent = (groupId: string, built: SplitBranch[]) => {
+        const index = groups.findIndex(g => g.id === groupId);
+        if (!stackMode || index <= 0) {
+            // On top of the merge-base, so the split only carries the target's own changes
+            return { parent: mergeBase, ancestors: [] };
+        }
+        const previous = groups[index - 1];
+        const below = [...built].reverse().find(s => s.group.id === previous.id);
+        if (!below) {
+            throw new Error(`Create the branch for '${previous.name}' first`);
+        }
+        return { parent: below.branch, ancestors: [...below.ancestors, below.group] };
+    };
+
+    const moveGroup = (id: string, offset: number) => {
+        const index = groups.findIndex(g => g.id === id);
+        const target = index + offset;
+        if (index === -1 || target < 0 || target >= groups.length) return;
+        const reordered = [...groups];
+        [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+        setGroups(reordered);
+    };
+
+    // Builds a group's branch on `parent`. Returns null while it waits for the user to review its
+    // LLM results or confirm its details.
+    const startBranch = async (group: Group, parent: string, ancestors: Group[]): Promise<SplitBranch | null> => {
+        const { changes, proposals } = await collectChanges(group, parent, ancestors);
+        if (proposals.length > 0) {
+            // Dry run: nothing is committed until every LLM result has been reviewed
+            setReview({ group, parent, ancestors, changes, proposals });
+            return null;
+        }
+        return await finishBranch(group, parent, ancestors, changes);
+    };
+
+    // Builds the queued stack groups in order, each on top of the one before it, until one waits
+    // for the user; confirming it picks up from there
+    const continueStack = async (parent: string, ancestors: Group[]) => {
+        while (stackQueue.current && stackQueue.current.length > 0) {
+            const [group, ...rest] = stackQueue.current;
+            stackQueue.current = rest;
+            const split = await startBranch(group, parent, ancestors);
+            if (!split) return;
+            parent = split.branch;
+            ancestors = [...split.ancestors, split.group];
+        }
+        stackQueue.current = null;
+        alert(`Stack of ${ancestors.length} branch(es) created successfully!`);
+    };
+
+    // After a branch is committed: on with the stack if one is being created
+    const branchCreated = async (split: SplitBranch) => {
+        if (stackQueue.current) {
+            await continueStack(split.branch, [...split.ancestors, split.group]);
+        } else {
+            alert(`Branch '${split.branch}' created successfully!`);
+        }
+    };
+
     const handleCreateBranch = async (groupId: string) => {
         const group = groups.find(g => g.id === groupId);
         if (!group) return;
 
         setLoading(true);
         try {
-            // 1. Create Branch from Base
-            const branchName = group.name.replace(/\s+/g, '-').toLowerCase();
-            await checkout(baseBranch); // Go to base first
-            await createBranch(branchName);
-            await checkout(branchName);
-
-            // 2. Apply changes
-            for (const filePath of group.files) {
-                // Read content from target branch
-                const content = await getFileContent(currentBranch, filePath);
-
-                let finalContent = content;
-
-                // Use LLM if configured and enabled
-                if (group.useLLM && llmConfig?.apiKey) {
-                    try {
-                        finalContent = await callLLM(group.prompt, content, llmConfig);
-                    } catch (e: any) {
-                        console.warn('LLM processing failed, using original content:', e.message);
-                        // Fall back to original content if LLM fails
-                    }
-                }
+            const { parent, ancestors } = getStackParent(groupId, splits);
+            const split = await startBranch(group, parent, ancestors);
+            if (split) await branchCreated(split);
+        } catch (e: any) {
+            setError("Error creating branch: " + e.message);
+            console.error(e);
+        } finally {
+            setLoading(false);
+        }
+    };
 
-                // Write to FS (which is now on the new branch)
-                await fs.promises.writeFile(filePath, finalContent);
+    // Every change of the target branch that no group claims: whole files in no group, plus the
+    // hunks no group picked in files that are only split by hunk.
+    const getUnclaimedChanges = async (): Promise<Pick<Group, 'files' | 'hunks'>> => {
+        const unclaimed: Pick<Group, 'files' | 'hunks'> = { files: [], hunks: {} };
+        for (const file of changedFiles) {
+            const owners = groups.filter(g => g.files.includes(file.path));
+            if (owners.length === 0) {
+                unclaimed.files.push(file.path);
+                continue;
+            }
+            if (owners.some(g => !g.hunks[file.path])) continue; // Claimed whole
 
-                // Stage
-                await git.add({ fs, dir: '/', filepath: filePath });
+            const original = await getFileContent(mergeBase, originalPath(file.path));
+            const modified = await getFileContent(currentBranch, file.path);
+            const claimed = new Set(owners.flatMap(g => g.hunks[file.path]));
+            const rest = computeHunks(original, modified).map((_, i) => i).filter(i => !claimed.has(i));
+            if (rest.length > 0) {
+                unclaimed.files.push(file.path);
+                unclaimed.hunks[file.path] = rest;
             }
+        }
+        return unclaimed;
+    };
 
-            // 3. Commit
-            await git.commit({
-                fs,
-                dir: '/',
-                message: `Split: ${group.name}\n\nPrompt: ${group.prompt}`,
-                author: {
-                    name: 'p-split',
-                    email: 'p-split@local',
-                    timestamp: Math.floor(Date.now() / 1000)
-                }
-            });
+    const handleCreateRemainder = async () => {
+        setLoading(true);
+        try {
+            const unclaimed = await getUnclaimedChanges();
+            if (unclaimed.files.length === 0) {
+                alert('Every change is already in a group.');
+                return;
+            }
 
-            alert(`Branch '${branchName}' created successfully!`);
+            const remainder: Group = {
+                id: 'remainder',
+                name: `${currentBranch}-remainder`,
+                prompt: '',
+                useLLM: false,
+                ...unclaimed,
+            };
+            const top = splits[splits.length - 1];
+            const { parent, ancestors } = stackRemainder && top
+                ? { parent: top.branch, ancestors: [...top.ancestors, top.group] }
+                : { parent: mergeBase, ancestors: [] };
+            // The remainder doesn't use the LLM, so there is nothing to review
+            const { changes } = await collectChanges(remainder, parent, ancestors);
+            const { branch } = await commitBranch(remainder, parent, ancestors, changes);
+            alert(`Branch '${branch}' created successfully!`);
+        } catch (e: any) {
+            setError("Error creating remainder branch: " + e.message);
+            console.error(e);
+        } finally {
+            setLoading(false);
+        }
+    };
 
-            // Return to previous state
-            await checkout(currentBranch);
+    const handleConfirmReview = async (decisions: ReviewDecision[]) => {
+        if (!review) return;
+        const { group, parent, ancestors, proposals } = review;
+        setReview(null);
+        setLoading(true);
+        try {
+            const changes = [...review.changes];
+            for (const decision of decisions) {
+                const proposal = proposals.find(p => p.path === decision.path);
+                if (proposal) changes.push(...await resolveProposal(proposal, decision, parent));
+            }
+            const split = await finishBranch(group, parent, ancestors, changes);
+            if (split) await branchCreated(split);
+        } catch (e: any) {
+            stackQueue.current = null;
+            setError("Error creating branch: " + e.message);
+            console.error(e);
+        } finally {
+            setLoading(false);
+        }
+    };
 
+    const handleConfirmDetails = async (description: BranchDescription) => {
+        if (!pendingCommit) return;
+        const { group, parent, ancestors, changes } = pendingCommit;
+        setPendingCommit(null);
+        setLoading(true);
+        try {
+            await branchCreated(await commitBranch(group, parent, ancestors, changes, description));
         } catch (e: any) {
+            stackQueue.current = null;
             setError("Error creating branch: " + e.message);
             console.error(e);
         } finally {
@@ -237,13 +675,81 @@ export default function App() {
         }
     };
 
-    const handleSaveSettings = (provider: LLMProvider, apiKey: string, endpoint?: string) => {
-        const config = { provider, apiKey, endpoint };
+    // Builds every group in order, going through the same review and branch details as a single branch
+    const handleCreateStack = async () => {
+        stackQueue.current = [...groups];
+        setLoading(true);
+        try {
+            await continueStack(mergeBase, []);
+        } catch (e: any) {
+            stackQueue.current = null;
+            setError("Error creating stack: " + e.message);
+            console.error(e);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    // Replaces the groups with proposed ones, for the user to edit before creating branches
+    const handleAutoGroup = async () => {
+        if (groupingStrategy === 'llm' && !isLLMConfigured(llmConfig)) {
+            setShowSettings(true);
+            return;
+        }
+        if (groups.length > 0 && !confirm('Replace the current groups with the proposed ones?')) return;
+
+        setLoading(true);
+        try {
+            let proposals: GroupProposal[];
+            if (groupingStrategy === 'llm') {
+                proposals = await proposeGroups(mergeBase, currentBranch, files, llmConfig!);
+            } else {
+                const rules = groupingStrategy === 'rules' ? parseGroupRules(groupRules) : [];
+                saveGroupRules(groupRules);
+                proposals = groupFiles(files, groupingStrategy, rules);
+            }
+            const now = Date.now();
+            setGroups(proposals.map((proposal, i) => ({
+                id: `${now}-${i}`,
+                name: proposal.name,
+                prompt: proposal.prompt,
+                files: proposal.files,
+                hunks: {},
+                // Every file is in exactly one group, so the whole file goes to its branch
+                useLLM: false,
+            })));
+            setSelectedFiles(new Set());
+        } catch (e: any) {
+            setError("Error grouping files: " + e.message);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleVerifySplits = async () => {
+        setLoading(true);
+        try {
+            setCoverageIssues(await verifySplits(baseBranch, currentBranch, splits.map(s => s.branch)));
+        } catch (e: any) {
+            setError("Error verifying splits: " + e.message);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleSaveSettings = (config: LLMConfig) => {
         saveLLMConfig(config);
         setLlmConfig(config);
         setShowSettings(false);
     };
 
+    const dependencyWarnings = findDependencyWarnings(groups, importGraph);
+
+    // The streaming file shown in the diff panel: the one picked in the progress list, else the first running one
+    const runningJobs = llmJobs?.filter(j => j.status === 'running') ?? [];
+    const previewPath = runningJobs.find(j => j.id === llmPreviewPath)?.id ?? runningJobs[0]?.id;
+    const preview = previewPath ? llmOutput[previewPath] : undefined;
+
     return (
         <View style={styles.container}>
             <View style={styles.header}>
@@ -283,13 +789,69 @@ export default function App() {
                                 </select>
                             </View>
                         </View>
+                        {mergeBase ? (
+                            <Text style={styles.mergeBase}>Merge base: {mergeBase.slice(0, 7)}</Text>
+                        ) : null}
 
                         <View style={styles.fileHeader}>
-                            <Text style={styles.subtitle}>Changed Files ({files.length})</Text>
+                            <Text style={styles.subtitle}>
+                                Changed Files ({files.length}{files.length < changedFiles.length ? `, ${changedFiles.length - files.length} hidden` : ''})
+                            </Text>
                             <View style={styles.fileHeaderRight}>
                                 <Button title={`Create Group (${selectedFiles.size})`} onPress={createGroup} disabled={selectedFiles.size === 0} />
                             </View>
                         </View>
+                        <View style={styles.filterRow}>
+                            {([
+                                ['ignoreWhitespace', 'Ignore whitespace'],
+                                ['ignoreLineEndings', 'Ignore line endings'],
+                                ['hideGenerated', 'Hide generated files'],
+                            ] as const).map(([key, label]) => (
+                                <TouchableOpacity key={key} style={styles.filterToggle} onPress={() => updateDiffFilters({ [key]: !diffFilters[key] })}>
+                                    <input
+                                        type="checkbox"
+                                        checked={!!diffFilters[key]}
+                                        onChange={() => { }} // Handled by TouchableOpacity
+                                        style={{ pointerEvents: 'none' }}
+                                    />
+                                    <Text style={styles.filterText}>{label}</Text>
+                                </TouchableOpacity>
+                            ))}
+                        </View>
+                        {diffFilters.hideGenerated && (
+                            <TextInput
+                                style={styles.rulesInput}
+                                value={diffFilters.generatedPatterns}
+                                onChangeText={(text) => updateDiffFilters({ generatedPatterns: text })}
+                                placeholder={'package-lock.json\n*.snap\ndist/'}
+                                multiline
+                            />
+                        )}
+                        <View style={styles.autoGroupRow}>
+                            <Text>Group by: </Text>
+                            <select
+                                value={groupingStrategy}
+                                onChange={(e) => setGroupingStrategy(e.target.value as GroupingStrategy | 'llm')}
+                                // @ts-ignore
+                                style={styles.select}
+                            >
+                                <option value="llm">LLM proposal</option>
+                                <option value="directory">Top-level directory / package</option>
+                                <option value="kind">File kind (source, tests, docs, config)</option>
+                                <option value="change">Change type</option>
+                                <option value="rules">Glob rules</option>
+                            </select>
+                            <Button title="Auto-group" onPress={handleAutoGroup} disabled={files.length === 0 || loading} />
+                        </View>
+                        {groupingStrategy === 'rules' && (
+                            <TextInput
+                                style={styles.rulesInput}
+                                value={groupRules}
+                                onChangeText={setGroupRules}
+                                placeholder={'src/api/** => API\n**/*.test.ts => Tests\n*.md => Docs'}
+                                multiline
+                            />
+                        )}
 
                         {loading ? <Text>Loading...</Text> : (
                             <ScrollView style={styles.fileList}>
@@ -314,8 +876,17 @@ export default function App() {
                                             style={styles.fileInfo}
                                             onPress={() => handleViewFile(file.path)}
                                         >
-                                            <Text style={styles.filePath} numberOfLines={1} ellipsizeMode="middle">{file.path}</Text>
-                                            <Text style={[styles.status, styles[file.status]]}>{file.status}</Text>
+                                            <Text style={styles.filePath} numberOfLines={1} ellipsizeMode="middle">
+                                                {file.oldPath ? `${file.oldPath} → ${file.path}` : file.path}
+                                            </Text>
+                                            {file.formatting && (
+                                                <Text style={styles.formattingBadge}>
+                                                    {file.formatting === 'whitespace' ? 'whitespace only' : 'line endings only'}
+                                                </Text>
+                                            )}
+                                            <Text style={[styles.status, styles[file.status]]}>
+                                                {file.similarity !== undefined ? `${file.status} ${file.similarity}%` : file.status}
+                                            </Text>
                                         </TouchableOpacity>
                                     </View>
                                 ))}
@@ -325,38 +896,156 @@ export default function App() {
 
                     <View style={styles.middlePanel}>
                         <Text style={styles.subtitle}>Diff View</Text>
-                        {diffLoading ? (
-                            <Text>Loading diff...</Text>
+                        {previewPath && preview ? (
+                            <View style={styles.livePreview}>
+                                <View style={styles.fileHeader}>
+                                    <Text style={styles.livePreviewTitle} numberOfLines={1}>LLM output for {previewPath}...</Text>
+                                    <Button title="Stop" color="red" onPress={() => llmJobAborts.current.get(previewPath)?.abort()} />
+                                </View>
+                                {llmConfig?.responseFormat === 'patch' ? (
+                                    <ScrollView>
+                                        <Text style={styles.rawOutput}>{preview.text}</Text>
+                                    </ScrollView>
+                                ) : (
+                                    <DiffView files={[{ path: previewPath, original: preview.base, modified: preview.text }]} />
+                                )}
+                            </View>
                         ) : diffData.length > 0 ? (
-                            <DiffView files={diffData} />
+                            <DiffView
+                                // Loaded contents belong to one pair of refs
+                                key={`${mergeBase}..${currentBranch}`}
+                                files={diffData}
+                                loadFile={loadDiffFile}
+                                options={diffFilters}
+                                groups={groups}
+                                getHunkGroup={getHunkGroup}
+                                onAssignHunk={assignHunk}
+                            />
                         ) : (
                             <Text style={styles.emptyText}>Select a file to view diff</Text>
                         )}
                     </View>
 
                     <View style={styles.rightPanel}>
-                        <Text style={styles.subtitle}>Groups</Text>
+                        <View style={styles.fileHeader}>
+                            <Text style={styles.subtitle}>Groups</Text>
+                            <Button title={`Verify Splits (${splits.length})`} onPress={handleVerifySplits} disabled={splits.length === 0} />
+                        </View>
+                        <View style={styles.remainderRow}>
+                            <TouchableOpacity
+                                onPress={() => setStackMode(!stackMode)}
+                                style={styles.llmToggle}
+                            >
+                                <input
+                                    type="checkbox"
+                                    checked={stackMode}
+                                    onChange={() => { }} // Handled by TouchableOpacity
+                                    style={{ pointerEvents: 'none' }}
+                                />
+                                <Text style={styles.llmToggleText}>Stacked branches</Text>
+                            </TouchableOpacity>
+                            {stackMode && <Button title="Create Stack" onPress={handleCreateStack} disabled={groups.length === 0} />}
+                        </View>
+                        {stackMode && groups.length > 0 && (
+                            <Text style={styles.stackChain}>
+                                {[baseBranch + (mergeBase ? ` (${mergeBase.slice(0, 7)})` : ''), ...groups.map(g => {
+                                    const built = splits.find(s => s.group.id === g.id);
+                                    return built ? `✓ ${built.branch}` : toBranchName(g.name);
+                                })].join(' → ')}
+                            </Text>
+                        )}
+                        <View style={styles.remainderRow}>
+                            <TouchableOpacity
+                                onPress={() => setStackRemainder(!stackRemainder)}
+                                style={styles.llmToggle}
+                            >
+                                <input
+                                    type="checkbox"
+                                    checked={stackRemainder}
+                                    onChange={() => { }} // Handled by TouchableOpacity
+                                    style={{ pointerEvents: 'none' }}
+                                />
+                                <Text style={styles.llmToggleText}>Stack on splits</Text>
+                            </TouchableOpacity>
+                            <Button title="Create Remainder Branch" onPress={handleCreateRemainder} disabled={changedFiles.length === 0} />
+                        </View>
+                        {llmJobs && (
+                            <LLMProgress
+                                jobs={llmJobs}
+                                selected={previewPath}
+                                onSelect={setLlmPreviewPath}
+                                onStop={(path) => llmJobAborts.current.get(path)?.abort()}
+                                onCancel={() => llmAbort.current?.abort()}
+                                onDismiss={() => setLlmJobs(null)}
+                            />
+                        )}
+                        {coverageIssues && (
+                            <View style={styles.coverage}>
+                                {coverageIssues.length === 0 ? (
+                                    <Text style={styles.coverageOk}>✓ {splits.length} split(s) add up to {currentBranch}</Text>
+                                ) : coverageIssues.map((issue, index) => (
+                                    <Text key={index} style={styles.coverageIssue}>
+                                        <Text style={[styles.status, styles[issue.kind]]}>{issue.kind}</Text> {issue.path}: {issue.message}
+                                    </Text>
+                                ))}
+                            </View>
+                        )}
                         <ScrollView style={styles.groupList}>
                             {groups.map(g => (
                                 <FileGroup
                                     key={g.id}
                                     {...g}
+                                    initialName={g.name}
+                                    initialPrompt={g.prompt}
+                                    initialUseLLM={g.useLLM}
+                                    dependencyWarnings={dependencyWarnings.get(g.id)}
                                     onUpdate={updateGroup}
                                     onRemoveFile={removeFileFromGroup}
                                     onCreateBranch={handleCreateBranch}
                                     onDeleteGroup={deleteGroup}
+                                    onMoveGroup={moveGroup}
                                 />
                             ))}
-                            {groups.length === 0 && <Text style={styles.emptyText}>Select files and click "Create Group"</Text>}
+                            {groups.length === 0 && <Text style={styles.emptyText}>Select files and click &quot;Create Group&quot;</Text>}
                         </ScrollView>
                     </View>
                 </View >
             )
             }
 
+            {
+                review && (
+                    <SplitReview
+                        branchName={toBranchName(review.group.name)}
+                        files={review.proposals}
+                        onConfirm={handleConfirmReview}
+                        onCancel={() => {
+                            // Cancelling a stack's branch stops the stack there
+                            stackQueue.current = null;
+                            setReview(null);
+                        }}
+                    />
+                )
+            }
+
+            {
+                pendingCommit && (
+                    <BranchDetails
+                        description={pendingCommit.description}
+                        branches={[...branches, ...splits.map(s => s.branch)]}
+                        onConfirm={handleConfirmDetails}
+                        onCancel={() => {
+                            stackQueue.current = null;
+                            setPendingCommit(null);
+                        }}
+                    />
+                )
+            }
+
             {
                 showSettings && (
                     <Settings
+                        config={llmConfig}
                         onSave={handleSaveSettings}
                         onCancel={() => setShowSettings(false)}
                     />
@@ -437,12 +1126,49 @@ const styles = StyleSheet.create({
         padding: 5,
         marginLeft: 5,
     },
+    mergeBase: {
+        fontSize: 12,
+        color: '#666',
+        fontFamily: 'monospace',
+        marginTop: -10,
+        marginBottom: 15,
+    },
     fileHeader: {
         flexDirection: 'row',
         justifyContent: 'space-between',
         alignItems: 'center',
         marginBottom: 10,
     },
+    autoGroupRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 5,
+        marginBottom: 10,
+    },
+    filterRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 12,
+        marginBottom: 10,
+    },
+    filterToggle: {
+        flexDirection: 'row',
+        alignItems: 'center',
+    },
+    filterText: {
+        marginLeft: 4,
+        fontSize: 12,
+    },
+    rulesInput: {
+        borderWidth: 1,
+        borderColor: '#ccc',
+        borderRadius: 6,
+        padding: 8,
+        height: 80,
+        fontFamily: 'monospace',
+        fontSize: 12,
+        marginBottom: 10,
+    },
     fileHeaderRight: {
         flexDirection: 'row',
         gap: 10,
@@ -491,6 +1217,15 @@ const styles = StyleSheet.create({
     filePath: {
         flex: 1,
     },
+    formattingBadge: {
+        fontSize: 10,
+        color: '#57606a',
+        backgroundColor: '#eaeef2',
+        borderRadius: 8,
+        paddingHorizontal: 6,
+        paddingVertical: 1,
+        marginHorizontal: 6,
+    },
     status: {
         fontWeight: '600',
         textTransform: 'uppercase',
@@ -508,9 +1243,63 @@ const styles = StyleSheet.create({
     unmodified: {
         color: '#333',
     },
+    renamed: {
+        color: '#6f42c1',
+    },
+    copied: {
+        color: '#0969da',
+    },
     groupList: {
         flex: 1,
     },
+    stackChain: {
+        fontSize: 12,
+        fontFamily: 'monospace',
+        color: '#555',
+        marginBottom: 15,
+    },
+    remainderRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: 15,
+    },
+    coverage: {
+        backgroundColor: 'white',
+        borderRadius: 8,
+        padding: 10,
+        marginBottom: 15,
+        maxHeight: 200,
+        overflow: 'scroll',
+    },
+    coverageOk: {
+        color: 'green',
+    },
+    coverageIssue: {
+        fontSize: 12,
+        marginBottom: 4,
+    },
+    mismatch: {
+        color: 'red',
+    },
+    duplicated: {
+        color: 'orange',
+    },
+    uncovered: {
+        color: '#999',
+    },
+    livePreview: {
+        flex: 1,
+    },
+    livePreviewTitle: {
+        flex: 1,
+        fontWeight: '600',
+        color: '#0969da',
+    },
+    rawOutput: {
+        fontFamily: 'monospace',
+        fontSize: 12,
+    },
     emptyText: {
         color: '#999',
         fontStyle: 'italic',
@@ -0,0 +1,132 @@
+import type { BranchDescription } from '@/utils/branch-description';
+import { isValidBranchName } from '@/utils/git-engine';
+import { useState } from 'react';
+import { Button, StyleSheet, Text, TextInput, View } from 'react-native';
+
+interface BranchDetailsProps {
+    description: BranchDescription;
+    // Names that are already taken
+    branches: string[];
+    onConfirm: (description: BranchDescription) => void;
+    onCancel: () => void;
+}
+
+export default function BranchDetails({ description, branches, onConfirm, onCancel }: BranchDetailsProps) {
+    const [branch, setBranch] = useState(description.branch);
+    const [message, setMessage] = useState(description.message);
+    const [pullRequest, setPullRequest] = useState(description.pullRequest);
+
+    const branchError = !isValidBranchName(branch)
+        ? 'Not a valid branch name'
+        : branches.includes(branch) ? 'A branch with this name already exists' : '';
+
+    const handleConfirm = () => {
+        onConfirm({ branch, message: message.trim(), pullRequest });
+    };
+
+    return (
+        <View style={styles.container}>
+            <View style={styles.modal}>
+                <Text style={styles.title}>Branch Details</Text>
+
+                <Text style={styles.label}>Branch Name</Text>
+                <TextInput
+                    style={styles.input}
+                    value={branch}
+                    onChangeText={setBranch}
+                    autoCapitalize="none"
+                />
+                {branchError ? <Text style={styles.error}>{branchError}</Text> : null}
+
+                <Text style={styles.label}>Commit Message</Text>
+                <TextInput
+                    style={[styles.input, styles.message]}
+                    value={message}
+                    onChangeText={setMessage}
+                    multiline
+                />
+
+                <View style={styles.labelRow}>
+                    <Text style={styles.label}>Pull Request Description</Text>
+                    <Button title="Copy" onPress={() => navigator.clipboard?.writeText(pullRequest)} disabled={!pullRequest} />
+                </View>
+                <TextInput
+                    style={[styles.input, styles.pullRequest]}
+                    value={pullRequest}
+                    onChangeText={setPullRequest}
+                    placeholder="Not committed; copy it into the pull request"
+                    multiline
+                />
+
+                <View style={styles.buttons}>
+                    <Button title="Cancel" onPress={onCancel} color="#666" />
+                    <Button title="Create Branch" onPress={handleConfirm} disabled={!!branchError || !message.trim()} />
+                </View>
+            </View>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        position: 'absolute',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        justifyContent: 'center',
+        alignItems: 'center',
+        zIndex: 1000,
+    },
+    modal: {
+        backgroundColor: 'white',
+        padding: 30,
+        borderRadius: 12,
+        width: 700,
+        maxWidth: '90%',
+    },
+    title: {
+        fontSize: 24,
+        fontWeight: 'bold',
+        marginBottom: 20,
+    },
+    labelRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'flex-end',
+    },
+    label: {
+        fontSize: 14,
+        fontWeight: '600',
+        marginTop: 15,
+        marginBottom: 5,
+    },
+    input: {
+        borderWidth: 1,
+        borderColor: '#ccc',
+        borderRadius: 6,
+        padding: 10,
+        fontSize: 14,
+    },
+    message: {
+        height: 140,
+        fontFamily: 'monospace',
+        fontSize: 12,
+    },
+    pullRequest: {
+        height: 200,
+        fontSize: 12,
+    },
+    error: {
+        color: 'red',
+        fontSize: 12,
+        marginTop: 5,
+    },
+    buttons: {
+        flexDirection: 'row',
+        justifyContent: 'flex-end',
+        gap: 10,
+        marginTop: 25,
+    },
+});
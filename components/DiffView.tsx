@@ -1,139 +1,456 @@
-import { Change, diffLines } from 'diff';
-import React, { useMemo } from 'react';
-import { Platform, ScrollView, StyleSheet, Text, View } from 'react-native';
+import ImageDiff, { formatSize, isImageFile } from '@/components/ImageDiff';
+import { CONTEXT_LINES, DiffLine, DiffOptions, Hunk, TextRange, computeHunks, contextLines, hunkHeader, hunkLines, pairLines, splitLines, wordDiffRanges } from '@/utils/diff-hunks';
+import type { FileVersion } from '@/utils/git-engine';
+import { Language, TokenType, highlightLine, languageOf } from '@/utils/syntax-highlight';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { FlatList, Platform, StyleSheet, Text, TouchableOpacity, View, ViewToken } from 'react-native';
 
 export interface DiffFile {
     path: string;
+    // Path of the original content when it differs from path (renamed or copied files)
+    oldPath?: string;
+    // Left out to have DiffView fetch them with loadFile once the file scrolls into view
+    original?: string;
+    modified?: string;
+}
+
+export interface FileContents {
     original: string;
     modified: string;
+    // The stored versions, if known; images and binary files are shown from these instead of the text
+    before?: FileVersion | null;
+    after?: FileVersion | null;
 }
 
 interface DiffViewProps {
     files: DiffFile[];
+    // Fetches the contents of files given without them
+    loadFile?: (file: DiffFile) => Promise<FileContents>;
+    // Whitespace and line-ending changes to leave out of the hunks
+    options?: DiffOptions;
+    // Groups that individual hunks can be assigned to; hunk pickers are hidden without them
+    groups?: { id: string; name: string }[];
+    getHunkGroup?: (path: string, hunkIndex: number) => string | undefined;
+    onAssignHunk?: (path: string, hunkIndex: number, hunkCount: number, groupId: string | null) => void;
 }
 
-const CONTEXT_LINES = 3;
+type Layout = 'unified' | 'split';
+
+// Lines revealed by one click on an expand control
+const EXPAND_LINES = 20;
+
+const NO_OPTIONS: DiffOptions = {};
 
-interface Hunk {
-    changes: Change[];
-    startLineOriginal: number;
-    startLineModified: number;
+// A file is loaded once any pixel of its header or loading row is on screen
+const VIEWABILITY_CONFIG = { itemVisiblePercentThreshold: 1 };
+
+// Extra context shown around a gap between hunks: `below` lines under the hunk before it,
+// `above` lines over the hunk after it
+interface GapExpansion {
+    below: number;
+    above: number;
+}
+
+interface ProcessedFile extends FileContents {
+    path: string;
+    options: DiffOptions;
+    hunks: Hunk[];
+    originalLines: string[];
+    language?: Language;
+}
+
+// A loaded file's contents, or why they couldn't be loaded
+type LoadState = FileContents | { error: string };
+
+// What the list renders: every file is a header followed by its lines, flattened so that only
+// the rows on screen are mounted
+type Row =
+    | { type: 'file'; key: string; file: DiffFile; collapsed: boolean; added?: number; removed?: number }
+    | { type: 'status'; key: string; path: string; text: string }
+    | { type: 'image'; key: string; path: string; before: FileVersion | null; after: FileVersion | null }
+    | { type: 'binary'; key: string; before: FileVersion | null; after: FileVersion | null }
+    | { type: 'expand'; key: string; path: string; gap: number; hidden: number; isFirst: boolean; isLast: boolean; expansion: GapExpansion }
+    | { type: 'hunk'; key: string; path: string; hunk: Hunk; index: number; count: number }
+    | { type: 'line'; key: string; line: DiffLine; language?: Language; changes?: TextRange[] }
+    | { type: 'pair'; key: string; left?: DiffLine; right?: DiffLine; language?: Language; leftChanges?: TextRange[]; rightChanges?: TextRange[] };
+
+// The unchanged lines between hunk `index - 1` and hunk `index` (before the first hunk for 0,
+// after the last one for hunks.length), and how far the new line numbers are ahead there
+function gapOf(file: ProcessedFile, index: number) {
+    const previous = file.hunks[index - 1];
+    const next = file.hunks[index];
+    const start = previous ? previous.startLineOriginal + previous.linesOriginal : 0;
+    const end = next ? next.startLineOriginal : file.originalLines.length;
+    const offset = previous ? previous.startLineModified + previous.linesModified - start : 0;
+    return { start, end, offset };
+}
+
+// Rows of a run of lines in the given layout, with the changed words of each removed line and
+// the added line paired with it
+function lineRows(lines: DiffLine[], layout: Layout, language: Language | undefined, key: string): Row[] {
+    const pairs = pairLines(lines);
+    const changes = new Map<DiffLine, TextRange[]>();
+    for (const { left, right } of pairs) {
+        if (left?.kind !== 'removed' || right?.kind !== 'added') continue;
+        const ranges = wordDiffRanges(left.text, right.text);
+        if (!ranges) continue;
+        changes.set(left, ranges.removed);
+        changes.set(right, ranges.added);
+    }
+
+    if (layout === 'unified') {
+        return lines.map((line, i) => ({ type: 'line', key: `${key}:${i}`, line, language, changes: changes.get(line) }));
+    }
+    return pairs.map(({ left, right }, i) => ({
+        type: 'pair',
+        key: `${key}:${i}`,
+        left,
+        right,
+        language,
+        leftChanges: left && changes.get(left),
+        rightChanges: right && changes.get(right),
+    }));
+}
+
+// Rows of the gap before hunk `index`: revealed context under the previous hunk, the expand
+// bar for what is still hidden, and revealed context over the next hunk
+function gapRows(file: ProcessedFile, index: number, expansion: GapExpansion, layout: Layout): Row[] {
+    const { start, end, offset } = gapOf(file, index);
+    if (end <= start) return [];
+    const isFirst = index === 0;
+    const isLast = index === file.hunks.length;
+    const { below, above } = expansion;
+    const hidden = Math.max(0, end - start - below - above);
+    const key = `${file.path}:gap${index}`;
+
+    const rows: Row[] = [];
+    if (!isFirst) {
+        rows.push(...lineRows(contextLines(file.originalLines, start, Math.min(end, start + below), offset), layout, file.language, `${key}:below`));
+    }
+    if (hidden > 0) {
+        rows.push({ type: 'expand', key: `${key}:bar`, path: file.path, gap: index, hidden, isFirst, isLast, expansion });
+    }
+    if (!isLast) {
+        rows.push(...lineRows(contextLines(file.originalLines, Math.max(start + below, end - above), end, offset), layout, file.language, `${key}:above`));
+    }
+    return rows;
+}
+
+function contentsOf(file: DiffFile, loaded: Record<string, LoadState>): LoadState | undefined {
+    if (file.original !== undefined || file.modified !== undefined) {
+        return { original: file.original ?? '', modified: file.modified ?? '' };
+    }
+    return loaded[file.path];
+}
+
+// Diffs a file, reusing the cached result while its contents and the options stay the same
+function processFile(cache: Map<string, ProcessedFile>, path: string, { original, modified }: FileContents, options: DiffOptions): ProcessedFile {
+    const cached = cache.get(path);
+    if (cached && cached.original === original && cached.modified === modified
+        && !!cached.options.ignoreWhitespace === !!options.ignoreWhitespace
+        && !!cached.options.ignoreLineEndings === !!options.ignoreLineEndings) {
+        return cached;
+    }
+    const file = {
+        path,
+        options,
+        original,
+        modified,
+        hunks: computeHunks(original, modified, CONTEXT_LINES, options),
+        originalLines: splitLines(original),
+        language: languageOf(path),
+    };
+    cache.set(path, file);
+    return file;
 }
 
-export default function DiffView({ files }: DiffViewProps) {
-    const processedFiles = useMemo(() => {
-        return files.map(file => {
-            const changes = diffLines(file.original, file.modified);
-            const hunks: Hunk[] = [];
-            let currentHunk: Change[] = [];
-            let lastChangeWasDiff = false;
-
-            // Helper to split a change into lines
-            const splitLines = (text: string) => {
-                if (text.length === 0) return [];
-                const lines = text.split('\n');
-                // diffLines often ends with a newline, causing an empty string at the end of split
-                if (lines[lines.length - 1] === '') lines.pop();
-                return lines.map(line => line + '\n');
-            };
-
-            for (let i = 0; i < changes.length; i++) {
-                const change = changes[i];
-                const isDiff = change.added || change.removed;
-
-                if (isDiff) {
-                    currentHunk.push(change);
-                    lastChangeWasDiff = true;
-                } else {
-                    // Unchanged block
-                    const lines = splitLines(change.value);
-
-                    if (lastChangeWasDiff) {
-                        // We just finished a diff block.
-                        // Check if the NEXT block is also a diff (or if we are close enough to it)
-                        // Actually, we need to look ahead.
-
-                        // If this is the last block, just take the first CONTEXT_LINES
-                        if (i === changes.length - 1) {
-                            if (lines.length > CONTEXT_LINES) {
-                                currentHunk.push({ value: lines.slice(0, CONTEXT_LINES).join(''), count: CONTEXT_LINES, added: false, removed: false });
-                                hunks.push({ changes: currentHunk, startLineOriginal: 0, startLineModified: 0 }); // Line numbers TODO
-                                currentHunk = [];
-                            } else {
-                                currentHunk.push(change);
-                                hunks.push({ changes: currentHunk, startLineOriginal: 0, startLineModified: 0 });
-                                currentHunk = [];
-                            }
-                        } else {
-                            // There is another change coming.
-                            // If the gap is small enough, keep the whole block.
-                            // Gap size = lines.length
-                            if (lines.length <= CONTEXT_LINES * 2) {
-                                currentHunk.push(change);
-                            } else {
-                                // Gap is too big. Split it.
-                                // 1. Finish current hunk with context
-                                currentHunk.push({ value: lines.slice(0, CONTEXT_LINES).join(''), count: CONTEXT_LINES, added: false, removed: false });
-                                hunks.push({ changes: currentHunk, startLineOriginal: 0, startLineModified: 0 });
-                                currentHunk = [];
-
-                                // 2. Start new hunk with context
-                                currentHunk.push({ value: lines.slice(lines.length - CONTEXT_LINES).join(''), count: CONTEXT_LINES, added: false, removed: false });
-                            }
-                        }
-                    } else {
-                        // This is the first block (start of file) and it is unchanged.
-                        // If the file starts with a huge unchanged block, we only want the end of it.
-                        if (lines.length > CONTEXT_LINES) {
-                            currentHunk.push({ value: lines.slice(lines.length - CONTEXT_LINES).join(''), count: CONTEXT_LINES, added: false, removed: false });
-                        } else {
-                            currentHunk.push(change);
-                        }
-                    }
-                    lastChangeWasDiff = false;
-                }
+function LineNumber({ value }: { value?: number }) {
+    return <Text style={[styles.text, styles.lineNumber]}>{value ?? ''}</Text>;
+}
+
+const SIGNS = { context: ' ', added: '+', removed: '-' };
+
+const TOKEN_COLORS: Record<TokenType, string | undefined> = {
+    plain: undefined,
+    comment: '#6e7781',
+    string: '#0a3069',
+    number: '#0550ae',
+    keyword: '#cf222e',
+    literal: '#0550ae',
+    property: '#8250df',
+};
+
+// Syntax-highlighted text of a line, with the word-diff `changes` marked on top
+function LineText({ line, language, changes = [], sign }: { line: DiffLine; language?: Language; changes?: TextRange[]; sign?: boolean }) {
+    const spans: { text: string; color?: string; changed: boolean }[] = [];
+    let position = 0;
+    for (const token of highlightLine(line.text, language)) {
+        const end = position + token.text.length;
+        // Split the token where a changed range starts or ends inside it
+        const cuts = [...new Set([position, end, ...changes.flatMap(c => [c.start, c.end]).filter(p => p > position && p < end)])].sort((a, b) => a - b);
+        for (let i = 0; i < cuts.length - 1; i++) {
+            spans.push({
+                text: line.text.slice(cuts[i], cuts[i + 1]),
+                color: TOKEN_COLORS[token.type],
+                changed: changes.some(c => c.start <= cuts[i] && cuts[i] < c.end),
+            });
+        }
+        position = end;
+    }
+
+    return (
+        <Text style={[styles.text, styles.code, styles[`${line.kind}Text`]]}>
+            {sign && `${SIGNS[line.kind]} `}
+            {spans.map((span, i) => (
+                <Text key={i} style={[span.color ? { color: span.color } : undefined, span.changed && styles[`${line.kind}Word`]]}>
+                    {span.text}
+                </Text>
+            ))}
+        </Text>
+    );
+}
+
+function UnifiedLine({ line, language, changes }: { line: DiffLine; language?: Language; changes?: TextRange[] }) {
+    return (
+        <View style={[styles.line, styles[line.kind]]}>
+            <LineNumber value={line.oldLine} />
+            <LineNumber value={line.newLine} />
+            <LineText line={line} language={language} changes={changes} sign />
+        </View>
+    );
+}
+
+function SplitSide({ line, side, language, changes }: { line?: DiffLine; side: 'left' | 'right'; language?: Language; changes?: TextRange[] }) {
+    if (!line) return <View style={[styles.side, styles.empty]} />;
+    return (
+        <View style={[styles.side, styles[line.kind]]}>
+            <LineNumber value={side === 'left' ? line.oldLine : line.newLine} />
+            <LineText line={line} language={language} changes={changes} />
+        </View>
+    );
+}
+
+
+export default function DiffView({ files, loadFile, options = NO_OPTIONS, groups, getHunkGroup, onAssignHunk }: DiffViewProps) {
+    const [layout, setLayout] = useState<Layout>('unified');
+    // Expanded context by file path and gap index
+    const [expanded, setExpanded] = useState<Record<string, Record<number, GapExpansion>>>({});
+    const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+    // Contents fetched with loadFile, by path
+    const [loaded, setLoaded] = useState<Record<string, LoadState>>({});
+    const loading = useRef(new Set<string>());
+    // Diffs are only computed once per file contents, not on every scroll or expansion
+    const processed = useRef(new Map<string, ProcessedFile>());
+
+    const rows = useMemo(() => {
+        const result: Row[] = [];
+        for (const file of files) {
+            const header: Extract<Row, { type: 'file' }> = { type: 'file', key: file.path, file, collapsed: collapsed.has(file.path) };
+            result.push(header);
+            const contents = contentsOf(file, loaded);
+            const versions = contents && !('error' in contents) && (contents.before || contents.after) ? contents : undefined;
+            const isImage = !!versions && isImageFile(file.path);
+            const isBinary = !!versions && (versions.before?.text === null || versions.after?.text === null);
+            // Images and binaries aren't diffed as text
+            const processedFile = contents && !('error' in contents) && !isImage && !isBinary
+                ? processFile(processed.current, file.path, contents, options)
+                : undefined;
+            const fileLines = processedFile?.hunks.map(hunkLines);
+            if (fileLines) {
+                header.added = fileLines.reduce((sum, lines) => sum + lines.filter(l => l.kind === 'added').length, 0);
+                header.removed = fileLines.reduce((sum, lines) => sum + lines.filter(l => l.kind === 'removed').length, 0);
             }
+            if (header.collapsed) continue;
 
-            if (currentHunk.length > 0) {
-                hunks.push({ changes: currentHunk, startLineOriginal: 0, startLineModified: 0 });
+            const status = (text: string) => result.push({ type: 'status', key: `${file.path}:status`, path: file.path, text });
+            if (!contents) {
+                status('Loading...');
+            } else if ('error' in contents) {
+                status('Error loading file: ' + contents.error);
+            } else if (versions && (isImage || isBinary)) {
+                const { before = null, after = null } = versions;
+                result.push(isImage
+                    ? { type: 'image', key: `${file.path}:image`, path: file.path, before, after }
+                    : { type: 'binary', key: `${file.path}:binary`, before, after });
+            } else if (!processedFile || !fileLines || processedFile.hunks.length === 0) {
+                status('No changes (or file is empty)');
+            } else {
+                const { hunks, language } = processedFile;
+                hunks.forEach((hunk, index) => {
+                    result.push(...gapRows(processedFile, index, expanded[file.path]?.[index] ?? { below: 0, above: 0 }, layout));
+                    result.push({ type: 'hunk', key: `${file.path}:hunk${index}`, path: file.path, hunk, index, count: hunks.length });
+                    result.push(...lineRows(fileLines[index], layout, language, `${file.path}:hunk${index}`));
+                });
+                result.push(...gapRows(processedFile, hunks.length, expanded[file.path]?.[hunks.length] ?? { below: 0, above: 0 }, layout));
             }
+        }
+        return result;
+    }, [files, loaded, collapsed, expanded, layout, options]);
 
-            return { ...file, hunks };
-        });
+    // Hunk indices only match the ones groups refer to when nothing is ignored
+    const ignoring = !!options.ignoreWhitespace || !!options.ignoreLineEndings;
+
+    // Forget diffs of files that are no longer shown
+    useEffect(() => {
+        const paths = new Set(files.map(f => f.path));
+        for (const path of processed.current.keys()) {
+            if (!paths.has(path)) processed.current.delete(path);
+        }
     }, [files]);
 
-    return (
-        <ScrollView style={styles.container}>
-            {processedFiles.map((file) => (
-                <View key={file.path} style={styles.fileContainer}>
-                    <Text style={styles.fileName}>{file.path}</Text>
-                    <View style={styles.diffContent}>
-                        {file.hunks.map((hunk, hunkIndex) => (
-                            <View key={hunkIndex} style={styles.hunk}>
-                                {hunkIndex > 0 && <View style={styles.hunkDivider}><Text style={styles.hunkDividerText}>...</Text></View>}
-                                {hunk.changes.map((part: Change, index: number) => {
-                                    const backgroundColor = part.added ? '#e6ffec' : part.removed ? '#ffebe9' : 'transparent';
-                                    const color = part.added ? '#1f883d' : part.removed ? '#cf222e' : '#24292f';
-
-                                    return (
-                                        <Text
-                                            key={index}
-                                            style={[
-                                                styles.text,
-                                                { backgroundColor, color }
-                                            ]}
-                                        >
-                                            {part.value}
-                                        </Text>
-                                    );
-                                })}
-                            </View>
-                        ))}
-                        {file.hunks.length === 0 && <Text style={styles.noChanges}>No changes (or file is empty/binary)</Text>}
+    // Starts loading files that came into view; kept in a ref since FlatList
+    // doesn't allow onViewableItemsChanged to change between renders
+    const loadVisible = useRef<(paths: string[]) => void>(() => { });
+    loadVisible.current = (paths) => {
+        if (!loadFile) return;
+        for (const path of new Set(paths)) {
+            const file = files.find(f => f.path === path);
+            if (!file || contentsOf(file, loaded) || collapsed.has(path) || loading.current.has(path)) continue;
+            loading.current.add(path);
+            loadFile(file)
+                .then(contents => setLoaded(prev => ({ ...prev, [path]: contents })))
+                .catch(e => setLoaded(prev => ({ ...prev, [path]: { error: e.message } })))
+                .finally(() => loading.current.delete(path));
+        }
+    };
+
+    const onViewableItemsChanged = useRef(({ viewableItems }: { viewableItems: ViewToken[] }) => {
+        const paths: string[] = [];
+        for (const { item } of viewableItems as { item: Row }[]) {
+            if (item.type === 'file') paths.push(item.file.path);
+            if (item.type === 'status') paths.push(item.path);
+        }
+        loadVisible.current(paths);
+    }).current;
+
+    const toggleFile = (path: string) => {
+        setCollapsed(prev => {
+            const next = new Set(prev);
+            if (next.has(path)) next.delete(path);
+            else next.add(path);
+            return next;
+        });
+    };
+
+    const expand = (path: string, gap: number, data: Partial<GapExpansion>) => {
+        setExpanded(prev => {
+            const current = prev[path]?.[gap] ?? { below: 0, above: 0 };
+            return { ...prev, [path]: { ...prev[path], [gap]: { ...current, ...data } } };
+        });
+    };
+
+    const renderRow = ({ item }: { item: Row }) => {
+        switch (item.type) {
+            case 'file': {
+                const { file } = item;
+                return (
+                    <TouchableOpacity onPress={() => toggleFile(file.path)} style={styles.fileHeader}>
+                        <Text style={styles.fileName}>
+                            {item.collapsed ? '▸' : '▾'} {file.oldPath && file.oldPath !== file.path ? `${file.oldPath} → ${file.path}` : file.path}
+                        </Text>
+                        {item.added !== undefined && (
+                            <Text style={styles.fileStats}>
+                                <Text style={styles.addedText}>+{item.added}</Text> <Text style={styles.removedText}>-{item.removed}</Text>
+                            </Text>
+                        )}
+                    </TouchableOpacity>
+                );
+            }
+            case 'status':
+                return <Text style={styles.noChanges}>{item.text}</Text>;
+            case 'image':
+                return <ImageDiff path={item.path} before={item.before} after={item.after} />;
+            case 'binary': {
+                const { before, after } = item;
+                const delta = (after?.size ?? 0) - (before?.size ?? 0);
+                return (
+                    <View style={styles.binary}>
+                        <Text style={styles.binaryText}>Binary file</Text>
+                        <Text style={styles.binaryText}>
+                            Size: {before ? formatSize(before.size) : 'none'} → {after ? formatSize(after.size) : 'none'}
+                            {before && after && delta !== 0 ? ` (${delta > 0 ? '+' : '-'}${formatSize(Math.abs(delta))})` : ''}
+                        </Text>
+                        <Text style={styles.binaryText}>
+                            Blob: {before ? before.oid.slice(0, 7) : 'none'} → {after ? after.oid.slice(0, 7) : 'none'}
+                        </Text>
                     </View>
-                </View>
-            ))}
-        </ScrollView>
+                );
+            }
+            case 'expand': {
+                const { path, gap, hidden, isFirst, isLast } = item;
+                const { below, above } = item.expansion;
+                return (
+                    <View style={styles.expandBar}>
+                        {!isFirst && hidden > EXPAND_LINES && (
+                            <TouchableOpacity onPress={() => expand(path, gap, { below: below + EXPAND_LINES })}>
+                                <Text style={styles.expandText}>↓ {EXPAND_LINES} lines</Text>
+                            </TouchableOpacity>
+                        )}
+                        <TouchableOpacity onPress={() => expand(path, gap, isFirst ? { above: above + hidden } : { below: below + hidden })}>
+                            <Text style={styles.expandText}>Expand {hidden} line{hidden === 1 ? '' : 's'}</Text>
+                        </TouchableOpacity>
+                        {!isLast && hidden > EXPAND_LINES && (
+                            <TouchableOpacity onPress={() => expand(path, gap, { above: above + EXPAND_LINES })}>
+                                <Text style={styles.expandText}>↑ {EXPAND_LINES} lines</Text>
+                            </TouchableOpacity>
+                        )}
+                    </View>
+                );
+            }
+            case 'hunk':
+                return (
+                    <View style={styles.hunkHeader}>
+                        <Text style={[styles.text, styles.hunkHeaderText]}>{hunkHeader(item.hunk)}</Text>
+                        {groups && groups.length > 0 && onAssignHunk && !ignoring && (
+                            <select
+                                value={getHunkGroup?.(item.path, item.index) ?? ''}
+                                onChange={(e) => onAssignHunk(item.path, item.index, item.count, e.target.value || null)}
+                                // @ts-ignore
+                                style={styles.hunkSelect}
+                            >
+                                <option value="">Unassigned</option>
+                                {groups.map(g => <option key={g.id} value={g.id}>{g.name}</option>)}
+                            </select>
+                        )}
+                    </View>
+                );
+            case 'line':
+                return <UnifiedLine line={item.line} language={item.language} changes={item.changes} />;
+            case 'pair':
+                return (
+                    <View style={styles.line}>
+                        <SplitSide line={item.left} side="left" language={item.language} changes={item.leftChanges} />
+                        <SplitSide line={item.right} side="right" language={item.language} changes={item.rightChanges} />
+                    </View>
+                );
+        }
+    };
+
+    return (
+        <View style={styles.container}>
+            <View style={styles.toolbar}>
+                {groups && groups.length > 0 && onAssignHunk && ignoring && (
+                    <Text style={styles.toolbarNote}>Hunks can&apos;t be assigned to groups while whitespace or line endings are ignored</Text>
+                )}
+                {(['unified', 'split'] as Layout[]).map(option => (
+                    <TouchableOpacity key={option} onPress={() => setLayout(option)} style={[styles.layoutButton, layout === option && styles.layoutButtonActive]}>
+                        <Text style={[styles.layoutButtonText, layout === option && styles.layoutButtonTextActive]}>
+                            {option === 'unified' ? 'Unified' : 'Side by side'}
+                        </Text>
+                    </TouchableOpacity>
+                ))}
+            </View>
+            <FlatList
+                data={rows}
+                keyExtractor={row => row.key}
+                renderItem={renderRow}
+                initialNumToRender={60}
+                maxToRenderPerBatch={60}
+                windowSize={5}
+                viewabilityConfig={VIEWABILITY_CONFIG}
+                onViewableItemsChanged={onViewableItemsChanged}
+            />
+        </View>
     );
 }
 
@@ -144,36 +461,123 @@ const styles = StyleSheet.create({
         borderRadius: 8,
         padding: 10,
     },
-    fileContainer: {
-        marginBottom: 20,
-        borderBottomWidth: 1,
-        borderBottomColor: '#eee',
-        paddingBottom: 20,
-    },
-    fileName: {
-        fontSize: 14,
-        fontWeight: 'bold',
+    toolbar: {
+        flexDirection: 'row',
+        justifyContent: 'flex-end',
         marginBottom: 10,
+    },
+    toolbarNote: {
+        flex: 1,
+        fontSize: 11,
+        color: '#9a6700',
+    },
+    layoutButton: {
+        paddingHorizontal: 8,
+        paddingVertical: 3,
+        borderWidth: 1,
+        borderColor: '#ccc',
+    },
+    layoutButtonActive: {
+        backgroundColor: '#0969da',
+        borderColor: '#0969da',
+    },
+    layoutButtonText: {
+        fontSize: 11,
         color: '#555',
+    },
+    layoutButtonTextActive: {
+        color: 'white',
+    },
+    fileHeader: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginTop: 10,
+        marginBottom: 5,
         backgroundColor: '#f5f5f5',
         padding: 5,
         borderRadius: 4,
     },
-    diffContent: {
-        // 
+    fileName: {
+        fontSize: 14,
+        fontWeight: 'bold',
+        color: '#555',
     },
-    hunk: {
-        marginBottom: 10,
+    fileStats: {
+        fontSize: 12,
     },
-    hunkDivider: {
-        backgroundColor: '#f0f0f0',
+    expandBar: {
+        flexDirection: 'row',
+        justifyContent: 'center',
+        gap: 15,
+        backgroundColor: '#f0f6ff',
         paddingVertical: 2,
+    },
+    expandText: {
+        color: '#0969da',
+        fontSize: 11,
+    },
+    hunkHeader: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
         alignItems: 'center',
-        marginBottom: 5,
+        backgroundColor: '#ddf4ff',
+        paddingHorizontal: 5,
+        paddingVertical: 2,
     },
-    hunkDividerText: {
-        color: '#999',
-        fontSize: 10,
+    hunkHeaderText: {
+        color: '#57606a',
+    },
+    hunkSelect: {
+        fontSize: 11,
+        padding: 2,
+    },
+    line: {
+        flexDirection: 'row',
+    },
+    side: {
+        flex: 1,
+        flexDirection: 'row',
+    },
+    empty: {
+        backgroundColor: '#f6f8fa',
+    },
+    context: {
+        backgroundColor: 'transparent',
+    },
+    added: {
+        backgroundColor: '#e6ffec',
+    },
+    removed: {
+        backgroundColor: '#ffebe9',
+    },
+    contextText: {
+        color: '#24292f',
+    },
+    addedText: {
+        color: '#1f883d',
+    },
+    removedText: {
+        color: '#cf222e',
+    },
+    addedWord: {
+        backgroundColor: '#abf2bc',
+    },
+    removedWord: {
+        backgroundColor: '#ffcecb',
+    },
+    contextWord: {},
+    lineNumber: {
+        width: 40,
+        paddingRight: 5,
+        textAlign: 'right',
+        color: '#8c959f',
+        // @ts-ignore
+        userSelect: 'none',
+    },
+    code: {
+        flex: 1,
+        paddingLeft: 5,
     },
     text: {
         fontFamily: Platform.OS === 'ios' ? 'Menlo' : Platform.OS === 'android' ? 'monospace' : 'Consolas, "Courier New", monospace',
@@ -181,6 +585,14 @@ const styles = StyleSheet.create({
         // @ts-ignore
         whiteSpace: 'pre-wrap',
     },
+    binary: {
+        padding: 10,
+        gap: 2,
+    },
+    binaryText: {
+        fontSize: 12,
+        color: '#57606a',
+    },
     noChanges: {
         fontStyle: 'italic',
         color: '#999',
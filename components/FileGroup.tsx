@@ -1,3 +1,4 @@
+import type { DependencyWarning } from '@/utils/import-graph';
 import { useState } from 'react';
 import { Button, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
 
@@ -7,13 +8,17 @@ interface FileGroupProps {
     initialPrompt?: string;
     initialUseLLM?: boolean;
     files: string[];
+    hunks?: Record<string, number[]>;
+    // Imports of this group's files that its branch won't contain
+    dependencyWarnings?: DependencyWarning[];
     onUpdate: (id: string, data: { name?: string, prompt?: string, useLLM?: boolean }) => void;
     onRemoveFile: (id: string, file: string) => void;
     onCreateBranch: (id: string) => void;
     onDeleteGroup: (id: string) => void;
+    onMoveGroup?: (id: string, offset: number) => void;
 }
 
-export default function FileGroup({ id, initialName, initialPrompt, initialUseLLM = true, files, onUpdate, onRemoveFile, onCreateBranch, onDeleteGroup }: FileGroupProps) {
+export default function FileGroup({ id, initialName, initialPrompt, initialUseLLM = true, files, hunks = {}, dependencyWarnings = [], onUpdate, onRemoveFile, onCreateBranch, onDeleteGroup, onMoveGroup }: FileGroupProps) {
     const [name, setName] = useState(initialName || 'New Group');
     const [prompt, setPrompt] = useState(initialPrompt || '');
     const [useLLM, setUseLLM] = useState(initialUseLLM);
@@ -42,6 +47,12 @@ export default function FileGroup({ id, initialName, initialPrompt, initialUseLL
                     onChangeText={handleNameChange}
                     placeholder="Group Name"
                 />
+                {onMoveGroup && (
+                    <View style={styles.moveButtons}>
+                        <Button title="↑" onPress={() => onMoveGroup(id, -1)} />
+                        <Button title="↓" onPress={() => onMoveGroup(id, 1)} />
+                    </View>
+                )}
                 <Button title="Delete" color="red" onPress={() => onDeleteGroup(id)} />
             </View>
 
@@ -71,6 +82,7 @@ export default function FileGroup({ id, initialName, initialPrompt, initialUseLL
                 {files.map(f => (
                     <View key={f} style={styles.fileRow}>
                         <Text style={styles.fileName} numberOfLines={1}>{f}</Text>
+                        {hunks[f] && <Text style={styles.hunkCount}>{hunks[f].length} hunk{hunks[f].length === 1 ? '' : 's'}</Text>}
                         <TouchableOpacity onPress={() => onRemoveFile(id, f)}>
                             <Text style={styles.remove}>Remove</Text>
                         </TouchableOpacity>
@@ -79,6 +91,17 @@ export default function FileGroup({ id, initialName, initialPrompt, initialUseLL
                 {files.length === 0 && <Text style={styles.empty}>No files added yet.</Text>}
             </View>
 
+            {dependencyWarnings.length > 0 && (
+                <View style={styles.warnings}>
+                    <Text style={styles.warningTitle}>Missing dependencies</Text>
+                    {dependencyWarnings.map(w => (
+                        <Text key={`${w.file}:${w.imports}`} style={styles.warning}>
+                            {w.file} imports {w.imports}, which is {w.group ? `in the later group '${w.group}'` : 'in no group'}
+                        </Text>
+                    ))}
+                </View>
+            )}
+
             <Button title="Create Branch" onPress={() => onCreateBranch(id)} disabled={files.length === 0} />
         </View>
     );
@@ -98,6 +121,11 @@ const styles = StyleSheet.create({
         justifyContent: 'space-between',
         marginBottom: 10,
     },
+    moveButtons: {
+        flexDirection: 'row',
+        gap: 5,
+        marginRight: 10,
+    },
     nameInput: {
         fontSize: 18,
         fontWeight: 'bold',
@@ -136,10 +164,31 @@ const styles = StyleSheet.create({
         marginRight: 10,
         fontSize: 12,
     },
+    hunkCount: {
+        color: '#666',
+        fontSize: 12,
+        marginRight: 10,
+    },
     remove: {
         color: 'red',
         fontSize: 12,
     },
+    warnings: {
+        backgroundColor: '#fff8e1',
+        borderRadius: 4,
+        padding: 8,
+        marginBottom: 15,
+    },
+    warningTitle: {
+        fontWeight: '600',
+        fontSize: 12,
+        color: '#b26a00',
+        marginBottom: 3,
+    },
+    warning: {
+        fontSize: 12,
+        color: '#b26a00',
+    },
     empty: {
         color: '#999',
         fontStyle: 'italic',
@@ -0,0 +1,229 @@
+import type { FileVersion } from '@/utils/git-engine';
+import { useEffect, useMemo, useState } from 'react';
+import { Image, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+interface ImageDiffProps {
+    path: string;
+    // null where the file doesn't exist (added or deleted images)
+    before: FileVersion | null;
+    after: FileVersion | null;
+}
+
+type Mode = '2-up' | 'swipe' | 'onion';
+
+interface Size {
+    width: number;
+    height: number;
+}
+
+const MIME_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    svg: 'image/svg+xml',
+    webp: 'image/webp',
+};
+
+// Largest size an image is shown at; bigger ones are scaled down
+const MAX_WIDTH = 480;
+const MAX_HEIGHT = 360;
+
+function mimeType(path: string): string | undefined {
+    return MIME_TYPES[path.split('/').pop()!.split('.').pop()!.toLowerCase()];
+}
+
+export function isImageFile(path: string): boolean {
+    return mimeType(path) !== undefined;
+}
+
+export function formatSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// An object URL for the version's bytes, revoked once it is no longer shown
+function useObjectURL(version: FileVersion | null, type: string | undefined): string | null {
+    const url = useMemo(() => version ? URL.createObjectURL(new Blob([version.data as BlobPart], { type })) : null, [version, type]);
+    useEffect(() => () => {
+        if (url) URL.revokeObjectURL(url);
+    }, [url]);
+    return url;
+}
+
+function useImageSize(url: string | null): Size | null {
+    const [size, setSize] = useState<Size | null>(null);
+    useEffect(() => {
+        setSize(null);
+        if (url) Image.getSize(url, (width, height) => setSize({ width, height }), () => setSize(null));
+    }, [url]);
+    return size;
+}
+
+function Caption({ label, version, size }: { label: string; version: FileVersion | null; size: Size | null }) {
+    return (
+        <Text style={styles.caption}>
+            {label}: {version ? `${size ? `${size.width}×${size.height}, ` : ''}${formatSize(version.size)}` : 'none'}
+        </Text>
+    );
+}
+
+export default function ImageDiff({ path, before, after }: ImageDiffProps) {
+    const [mode, setMode] = useState<Mode>('2-up');
+    // Swipe divider position, or the opacity of the new image for onion skin, from 0 to 1
+    const [position, setPosition] = useState(0.5);
+    const type = mimeType(path);
+    const beforeURL = useObjectURL(before, type);
+    const afterURL = useObjectURL(after, type);
+    const beforeSize = useImageSize(beforeURL);
+    const afterSize = useImageSize(afterURL);
+
+    // One scale for both images, so a change in dimensions shows up as one
+    const widest = Math.max(beforeSize?.width ?? 0, afterSize?.width ?? 0);
+    const tallest = Math.max(beforeSize?.height ?? 0, afterSize?.height ?? 0);
+    const scale = widest && tallest ? Math.min(1, MAX_WIDTH / widest, MAX_HEIGHT / tallest) : 1;
+    const scaled = (size: Size | null) => size ? { width: size.width * scale, height: size.height * scale } : { width: 0, height: 0 };
+    const stage = { width: widest * scale, height: tallest * scale };
+
+    const renderImage = (url: string | null, size: Size | null, extra?: object) => url && size
+        ? <Image source={{ uri: url }} style={[scaled(size), extra]} />
+        : null;
+
+    const compare = before && after ? mode : '2-up';
+
+    return (
+        <View style={styles.container}>
+            {before && after && (
+                <View style={styles.modes}>
+                    {(['2-up', 'swipe', 'onion'] as Mode[]).map(option => (
+                        <TouchableOpacity key={option} onPress={() => setMode(option)} style={[styles.modeButton, mode === option && styles.modeButtonActive]}>
+                            <Text style={[styles.modeButtonText, mode === option && styles.modeButtonTextActive]}>
+                                {option === '2-up' ? '2-up' : option === 'swipe' ? 'Swipe' : 'Onion skin'}
+                            </Text>
+                        </TouchableOpacity>
+                    ))}
+                </View>
+            )}
+
+            {compare === '2-up' ? (
+                <View style={styles.panes}>
+                    <View style={styles.pane}>
+                        <Caption label="Before" version={before} size={beforeSize} />
+                        <View style={[styles.frame, styles.removedFrame]}>{renderImage(beforeURL, beforeSize)}</View>
+                    </View>
+                    <View style={styles.pane}>
+                        <Caption label="After" version={after} size={afterSize} />
+                        <View style={[styles.frame, styles.addedFrame]}>{renderImage(afterURL, afterSize)}</View>
+                    </View>
+                </View>
+            ) : (
+                <View style={styles.pane}>
+                    <View style={styles.captions}>
+                        <Caption label="Before" version={before} size={beforeSize} />
+                        <Caption label="After" version={after} size={afterSize} />
+                    </View>
+                    <View style={[styles.frame, styles.stage, stage]}>
+                        {compare === 'swipe' ? (
+                            <>
+                                {renderImage(afterURL, afterSize, styles.layer)}
+                                {/* The old image, cut off at the divider */}
+                                <View style={[styles.layer, styles.swipe, { width: stage.width * position, height: stage.height }]}>
+                                    {renderImage(beforeURL, beforeSize)}
+                                </View>
+                            </>
+                        ) : (
+                            <>
+                                {renderImage(beforeURL, beforeSize, styles.layer)}
+                                {renderImage(afterURL, afterSize, [styles.layer, { opacity: position }])}
+                            </>
+                        )}
+                    </View>
+                    <input
+                        type="range"
+                        min={0}
+                        max={100}
+                        value={Math.round(position * 100)}
+                        onChange={(e) => setPosition(Number(e.target.value) / 100)}
+                        style={{ width: Math.max(stage.width, 200) }}
+                    />
+                </View>
+            )}
+
+            <Text style={styles.caption}>
+                Blob: {before ? before.oid.slice(0, 7) : 'none'} → {after ? after.oid.slice(0, 7) : 'none'}
+            </Text>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        padding: 10,
+        gap: 8,
+    },
+    modes: {
+        flexDirection: 'row',
+    },
+    modeButton: {
+        paddingHorizontal: 8,
+        paddingVertical: 3,
+        borderWidth: 1,
+        borderColor: '#ccc',
+    },
+    modeButtonActive: {
+        backgroundColor: '#0969da',
+        borderColor: '#0969da',
+    },
+    modeButtonText: {
+        fontSize: 11,
+        color: '#555',
+    },
+    modeButtonTextActive: {
+        color: 'white',
+    },
+    panes: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 15,
+    },
+    pane: {
+        gap: 4,
+    },
+    captions: {
+        flexDirection: 'row',
+        gap: 15,
+    },
+    caption: {
+        fontSize: 11,
+        color: '#57606a',
+    },
+    frame: {
+        alignSelf: 'flex-start',
+        minWidth: 40,
+        minHeight: 40,
+        borderWidth: 1,
+        borderColor: '#d0d7de',
+        backgroundColor: '#f6f8fa',
+    },
+    removedFrame: {
+        borderColor: '#ff8182',
+    },
+    addedFrame: {
+        borderColor: '#4ac26b',
+    },
+    stage: {
+        position: 'relative',
+        overflow: 'hidden',
+    },
+    layer: {
+        position: 'absolute',
+        top: 0,
+        left: 0,
+    },
+    swipe: {
+        overflow: 'hidden',
+        borderRightWidth: 1,
+        borderRightColor: '#0969da',
+    },
+});
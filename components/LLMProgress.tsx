@@ -0,0 +1,126 @@
+import type { LLMJobEvent, LLMJobStatus } from '@/utils/llm-service';
+import { Button, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+interface LLMProgressProps {
+    jobs: LLMJobEvent[];
+    // Job whose streamed output is being previewed
+    selected?: string;
+    onSelect?: (id: string) => void;
+    // Stops a single running job; the others keep going
+    onStop?: (id: string) => void;
+    onCancel: () => void;
+    onDismiss: () => void;
+}
+
+const STATUS_LABELS: Record<LLMJobStatus, string> = {
+    pending: 'Pending',
+    running: 'Running',
+    done: 'Done',
+    failed: 'Failed',
+    cancelled: 'Cancelled',
+};
+
+export default function LLMProgress({ jobs, selected, onSelect, onStop, onCancel, onDismiss }: LLMProgressProps) {
+    const active = jobs.some(j => j.status === 'pending' || j.status === 'running');
+    const done = jobs.filter(j => j.status === 'done').length;
+
+    return (
+        <View style={styles.container}>
+            <View style={styles.header}>
+                <Text style={styles.title}>LLM ({done}/{jobs.length})</Text>
+                {active
+                    ? <Button title="Cancel" color="red" onPress={onCancel} />
+                    : <Button title="Dismiss" onPress={onDismiss} />}
+            </View>
+            <ScrollView style={styles.list}>
+                {jobs.map(job => (
+                    <TouchableOpacity
+                        key={job.id}
+                        style={[styles.row, job.id === selected && styles.selected]}
+                        onPress={() => onSelect?.(job.id)}
+                        disabled={job.status !== 'running'}
+                    >
+                        <Text style={styles.path} numberOfLines={1} ellipsizeMode="middle">{job.id}</Text>
+                        <Text style={[styles.status, styles[job.status]]}>
+                            {STATUS_LABELS[job.status]}{job.attempt > 1 ? ` (try ${job.attempt})` : ''}
+                        </Text>
+                        {onStop && job.status === 'running' && (
+                            <TouchableOpacity onPress={() => onStop(job.id)}>
+                                <Text style={styles.stop}>Stop</Text>
+                            </TouchableOpacity>
+                        )}
+                        {job.error && <Text style={styles.error} numberOfLines={2}>{job.error}</Text>}
+                    </TouchableOpacity>
+                ))}
+            </ScrollView>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        backgroundColor: 'white',
+        borderRadius: 8,
+        padding: 10,
+        marginBottom: 15,
+        maxHeight: 250,
+    },
+    header: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: 5,
+    },
+    title: {
+        fontWeight: '600',
+    },
+    list: {
+        flexGrow: 0,
+    },
+    row: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        alignItems: 'center',
+        paddingVertical: 3,
+        borderBottomWidth: 1,
+        borderBottomColor: '#eee',
+    },
+    selected: {
+        backgroundColor: '#e6f7ff',
+    },
+    path: {
+        flex: 1,
+        fontSize: 12,
+        marginRight: 10,
+    },
+    status: {
+        fontSize: 11,
+        fontWeight: '600',
+        textTransform: 'uppercase',
+    },
+    stop: {
+        marginLeft: 8,
+        fontSize: 11,
+        color: 'red',
+    },
+    error: {
+        width: '100%',
+        fontSize: 11,
+        color: '#999',
+    },
+    pending: {
+        color: '#999',
+    },
+    running: {
+        color: '#0969da',
+    },
+    done: {
+        color: 'green',
+    },
+    failed: {
+        color: 'red',
+    },
+    cancelled: {
+        color: 'orange',
+    },
+});
@@ -1,26 +1,70 @@
-import type { LLMProvider } from '@/utils/llm-service';
-import { useState } from 'react';
-import { Button, StyleSheet, Text, TextInput, View } from 'react-native';
+import { DEFAULT_CONCURRENCY, DEFAULT_CONTEXT_TOKENS, DEFAULT_MODELS, DEFAULT_OUTPUT_TOKENS, DEFAULT_TEMPERATURE, getDefaultEndpoint, type LLMConfig, type LLMProvider, type LLMResponseFormat, type ProviderSettings } from '@/utils/llm-service';
+import { clearLLMCache, countCachedResponses, isLLMCacheAvailable } from '@/utils/llm-cache';
+import { useEffect, useState } from 'react';
+import { Button, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
 
 interface SettingsProps {
-    onSave: (provider: LLMProvider, apiKey: string, endpoint?: string) => void;
+    config: LLMConfig | null;
+    onSave: (config: LLMConfig) => void;
     onCancel: () => void;
 }
 
-export default function Settings({ onSave, onCancel }: SettingsProps) {
-    const [provider, setProvider] = useState<LLMProvider>('openai');
-    const [apiKey, setApiKey] = useState('');
-    const [customEndpoint, setCustomEndpoint] = useState('');
+export default function Settings({ config, onSave, onCancel }: SettingsProps) {
+    const [provider, setProvider] = useState<LLMProvider>(config?.provider ?? 'openai');
+    const [apiKey, setApiKey] = useState(config?.apiKey ?? '');
+    const [customEndpoint, setCustomEndpoint] = useState(config?.endpoint ?? '');
+    const [responseFormat, setResponseFormat] = useState<LLMResponseFormat>(config?.responseFormat ?? 'file');
+    const [concurrency, setConcurrency] = useState<number | undefined>(config?.concurrency);
+    const [useCache, setUseCache] = useState(config?.useCache ?? true);
+    const [describeBranches, setDescribeBranches] = useState(config?.describeBranches ?? false);
+    // Number of cached responses, or null while unknown
+    const [cacheSize, setCacheSize] = useState<number | null>(null);
+    const [providers, setProviders] = useState<Partial<Record<LLMProvider, ProviderSettings>>>(config?.providers ?? {});
+    // Kept as text while editing, so partial input like "0." isn't thrown away
+    const [temperatureText, setTemperatureText] = useState(() => String(config?.providers?.[provider]?.temperature ?? ''));
+
+    const providerSettings = providers[provider] ?? {};
+
+    useEffect(() => {
+        if (!isLLMCacheAvailable()) return;
+        countCachedResponses().then(setCacheSize).catch(() => setCacheSize(null));
+    }, []);
+
+    const handleClearCache = async () => {
+        try {
+            await clearLLMCache();
+            setCacheSize(0);
+        } catch (e: any) {
+            alert('Failed to clear the LLM cache: ' + e.message);
+        }
+    };
+
+    const updateProviderSettings = (data: ProviderSettings) => {
+        setProviders({ ...providers, [provider]: { ...providerSettings, ...data } });
+    };
+
+    const handleProviderChange = (next: LLMProvider) => {
+        setProvider(next);
+        setTemperatureText(String(providers[next]?.temperature ?? ''));
+    };
+
+    const handleTemperatureChange = (t: string) => {
+        setTemperatureText(t);
+        const value = parseFloat(t);
+        updateProviderSettings({ temperature: t.trim() === '' || isNaN(value) ? undefined : value });
+    };
 
     const handleSave = () => {
-        onSave(provider, apiKey, customEndpoint || undefined);
+        onSave({ provider, apiKey, endpoint: customEndpoint || undefined, responseFormat, concurrency, useCache, describeBranches, providers });
     };
 
-    const getDefaultEndpoint = () => {
-        if (provider === 'gemini') {
-            return 'https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent';
+    const getApiKeyPlaceholder = () => {
+        switch (provider) {
+            case 'gemini': return 'Your Gemini API key';
+            case 'anthropic': return 'sk-ant-...';
+            case 'openai-compatible': return 'Usually not needed for local servers';
+            default: return 'sk-...';
         }
-        return 'https://api.openai.com/v1/chat/completions';
     };
 
     return (
@@ -31,11 +75,13 @@ export default function Settings({ onSave, onCancel }: SettingsProps) {
                 <Text style={styles.label}>Provider</Text>
                 <select
                     value={provider}
-                    onChange={(e) => setProvider(e.target.value as LLMProvider)}
+                    onChange={(e) => handleProviderChange(e.target.value as LLMProvider)}
                     style={styles.select}
                 >
-                    <option value="openai">OpenAI (GPT-4)</option>
+                    <option value="openai">OpenAI</option>
                     <option value="gemini">Google Gemini</option>
+                    <option value="anthropic">Anthropic</option>
+                    <option value="openai-compatible">OpenAI-compatible / local (Ollama, llama.cpp)</option>
                 </select>
 
                 <Text style={styles.label}>API Key</Text>
@@ -43,19 +89,118 @@ export default function Settings({ onSave, onCancel }: SettingsProps) {
                     style={styles.input}
                     value={apiKey}
                     onChangeText={setApiKey}
-                    placeholder={provider === 'gemini' ? 'Your Gemini API key' : 'sk-...'}
+                    placeholder={getApiKeyPlaceholder()}
                     secureTextEntry
                 />
 
+                <View style={styles.row}>
+                    <View style={styles.rowItem}>
+                        <Text style={styles.label}>Model</Text>
+                        <TextInput
+                            style={styles.input}
+                            value={providerSettings.model ?? ''}
+                            onChangeText={(t) => updateProviderSettings({ model: t || undefined })}
+                            placeholder={DEFAULT_MODELS[provider]}
+                        />
+                    </View>
+                    <View style={styles.rowItem}>
+                        <Text style={styles.label}>Temperature</Text>
+                        <TextInput
+                            style={styles.input}
+                            value={temperatureText}
+                            onChangeText={handleTemperatureChange}
+                            placeholder={String(DEFAULT_TEMPERATURE)}
+                            keyboardType="decimal-pad"
+                        />
+                    </View>
+                    <View style={styles.rowItem}>
+                        <Text style={styles.label}>Context (tokens)</Text>
+                        <TextInput
+                            style={styles.input}
+                            value={providerSettings.contextTokens ? String(providerSettings.contextTokens) : ''}
+                            onChangeText={(t) => updateProviderSettings({ contextTokens: parseInt(t, 10) || undefined })}
+                            placeholder={String(DEFAULT_CONTEXT_TOKENS[provider])}
+                            keyboardType="number-pad"
+                        />
+                    </View>
+                    <View style={styles.rowItem}>
+                        <Text style={styles.label}>Max Reply (tokens)</Text>
+                        <TextInput
+                            style={styles.input}
+                            value={providerSettings.outputTokens ? String(providerSettings.outputTokens) : ''}
+                            onChangeText={(t) => updateProviderSettings({ outputTokens: parseInt(t, 10) || undefined })}
+                            placeholder={String(DEFAULT_OUTPUT_TOKENS[provider])}
+                            keyboardType="number-pad"
+                        />
+                    </View>
+                </View>
+                <Text style={styles.hint}>Remembered per provider. Files larger than the context window or the reply limit are sent in chunks of changed regions; a reply cut off at the limit fails that file.</Text>
+
                 <Text style={styles.label}>Custom Endpoint (Optional)</Text>
                 <TextInput
                     style={styles.input}
                     value={customEndpoint}
                     onChangeText={setCustomEndpoint}
-                    placeholder={getDefaultEndpoint()}
+                    placeholder={getDefaultEndpoint(provider, providerSettings.model || DEFAULT_MODELS[provider])}
                 />
                 <Text style={styles.hint}>Leave empty to use default endpoint</Text>
 
+                <Text style={styles.label}>Response Format</Text>
+                <select
+                    value={responseFormat}
+                    onChange={(e) => setResponseFormat(e.target.value as LLMResponseFormat)}
+                    style={styles.select}
+                >
+                    <option value="file">Whole file</option>
+                    <option value="patch">Unified patch (validated against target)</option>
+                </select>
+                <Text style={styles.hint}>Patch mode only applies hunks whose added lines exist in the target branch</Text>
+
+                <Text style={styles.label}>Parallel Requests</Text>
+                <TextInput
+                    style={styles.input}
+                    value={concurrency ? String(concurrency) : ''}
+                    onChangeText={(t) => setConcurrency(parseInt(t, 10) || undefined)}
+                    placeholder={String(DEFAULT_CONCURRENCY)}
+                    keyboardType="number-pad"
+                />
+                <Text style={styles.hint}>Rate-limited and failed requests are retried with backoff</Text>
+
+                <TouchableOpacity style={[styles.toggle, styles.option]} onPress={() => setDescribeBranches(!describeBranches)}>
+                    <input
+                        type="checkbox"
+                        checked={describeBranches}
+                        onChange={() => { }} // Handled by TouchableOpacity
+                        style={{ pointerEvents: 'none' }}
+                    />
+                    <Text style={styles.toggleText}>Write branch names, commit messages and PR descriptions</Text>
+                </TouchableOpacity>
+                <Text style={styles.hint}>Drafted from each branch&apos;s final diff and shown for editing before the commit</Text>
+
+                {isLLMCacheAvailable() && (
+                    <>
+                        <Text style={styles.label}>Response Cache</Text>
+                        <View style={styles.cacheRow}>
+                            <TouchableOpacity style={styles.toggle} onPress={() => setUseCache(!useCache)}>
+                                <input
+                                    type="checkbox"
+                                    checked={useCache}
+                                    onChange={() => { }} // Handled by TouchableOpacity
+                                    style={{ pointerEvents: 'none' }}
+                                />
+                                <Text style={styles.toggleText}>Reuse cached responses</Text>
+                            </TouchableOpacity>
+                            <Button
+                                title={cacheSize === null ? 'Clear Cache' : `Clear Cache (${cacheSize})`}
+                                onPress={handleClearCache}
+                                color="#666"
+                                disabled={cacheSize === 0}
+                            />
+                        </View>
+                        <Text style={styles.hint}>Files whose prompt, model and content are unchanged are not sent again. Turn off to ask the model anew.</Text>
+                    </>
+                )}
+
                 <View style={styles.buttons}>
                     <Button title="Cancel" onPress={onCancel} color="#666" />
                     <Button title="Save" onPress={handleSave} />
@@ -110,6 +255,29 @@ const styles = StyleSheet.create({
         padding: 10,
         fontSize: 14,
     },
+    row: {
+        flexDirection: 'row',
+        gap: 10,
+    },
+    rowItem: {
+        flex: 1,
+    },
+    cacheRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+    },
+    toggle: {
+        flexDirection: 'row',
+        alignItems: 'center',
+    },
+    option: {
+        marginTop: 15,
+    },
+    toggleText: {
+        marginLeft: 5,
+        fontSize: 14,
+    },
     hint: {
         fontSize: 12,
         color: '#666',
@@ -0,0 +1,237 @@
+import DiffView from '@/components/DiffView';
+import { useState } from 'react';
+import { Button, ScrollView, StyleSheet, Text, TextInput, View } from 'react-native';
+
+export interface ReviewFile {
+    path: string;
+    base: string;
+    target: string;
+    // What the LLM proposed, or null if the call failed
+    proposed: string | null;
+    error?: string;
+    // Patch hunks that were rejected during validation
+    rejected: string[];
+}
+
+// What to commit for a reviewed file: the (possibly edited) proposal, or a fallback the user chose
+export type ReviewAction = 'accept' | 'target' | 'base' | 'exclude';
+
+export interface ReviewDecision {
+    path: string;
+    action: ReviewAction;
+    // Content to commit when action is 'accept'
+    content?: string;
+}
+
+interface SplitReviewProps {
+    branchName: string;
+    files: ReviewFile[];
+    onConfirm: (decisions: ReviewDecision[]) => void;
+    onCancel: () => void;
+}
+
+interface FileState {
+    action: ReviewAction;
+    editing: boolean;
+    content: string;
+}
+
+export default function SplitReview({ branchName, files, onConfirm, onCancel }: SplitReviewProps) {
+    const [states, setStates] = useState<Record<string, FileState>>(() => Object.fromEntries(files.map(f => [f.path, {
+        // Failed files start rejected, so the fallback is a visible choice rather than a silent one
+        action: f.proposed === null ? 'target' : 'accept',
+        editing: false,
+        // Without a proposal, editing starts from the target version rather than an empty file
+        content: f.proposed ?? f.target,
+    }])));
+
+    const update = (path: string, data: Partial<FileState>) => {
+        setStates({ ...states, [path]: { ...states[path], ...data } });
+    };
+
+    const handleConfirm = () => {
+        onConfirm(files.map(f => {
+            const state = states[f.path];
+            return state.action === 'accept'
+                ? { path: f.path, action: 'accept', content: state.content }
+                : { path: f.path, action: state.action };
+        }));
+    };
+
+    return (
+        <View style={styles.container}>
+            <View style={styles.modal}>
+                <Text style={styles.title}>Review &apos;{branchName}&apos;</Text>
+                <Text style={styles.hint}>Accept, edit or reject what the LLM proposed for each file before the branch is created.</Text>
+
+                <ScrollView style={styles.fileList}>
+                    {files.map(f => {
+                        const state = states[f.path];
+                        const accepted = state.action === 'accept';
+                        return (
+                            <View key={f.path} style={styles.file}>
+                                <View style={styles.fileHeader}>
+                                    <Text style={styles.fileName}>{f.path}</Text>
+                                    <View style={styles.actions}>
+                                        <Button title="Accept" onPress={() => update(f.path, { action: 'accept', editing: false })} disabled={f.proposed === null || (accepted && !state.editing)} />
+                                        <Button title="Edit" onPress={() => update(f.path, { action: 'accept', editing: true })} disabled={state.editing} />
+                                        <Button title="Reject" color="red" onPress={() => update(f.path, { action: 'target', editing: false })} disabled={!accepted} />
+                                    </View>
+                                </View>
+
+                                {f.error && <Text style={styles.error}>LLM failed: {f.error}</Text>}
+                                {f.rejected.map((reason, i) => <Text key={i} style={styles.warning}>{reason}</Text>)}
+
+                                {!accepted && (
+                                    <View style={styles.fallbackRow}>
+                                        <Text>Instead use: </Text>
+                                        <select
+                                            value={state.action}
+                                            onChange={(e) => update(f.path, { action: e.target.value as ReviewAction })}
+                                            // @ts-ignore
+                                            style={styles.select}
+                                        >
+                                            <option value="target">Full target version</option>
+                                            <option value="base">Base version</option>
+                                            <option value="exclude">Exclude from this branch</option>
+                                        </select>
+                                    </View>
+                                )}
+
+                                {accepted && state.editing && (
+                                    <TextInput
+                                        style={styles.editor}
+                                        value={state.content}
+                                        onChangeText={(t) => update(f.path, { content: t })}
+                                        multiline
+                                    />
+                                )}
+
+                                {accepted && (
+                                    <View style={styles.diffs}>
+                                        <View style={styles.diff}>
+                                            <Text style={styles.diffLabel}>Taken (base → result)</Text>
+                                            <DiffView files={[{ path: f.path, original: f.base, modified: state.content }]} />
+                                        </View>
+                                        <View style={styles.diff}>
+                                            <Text style={styles.diffLabel}>Left out (result → target)</Text>
+                                            <DiffView files={[{ path: f.path, original: state.content, modified: f.target }]} />
+                                        </View>
+                                    </View>
+                                )}
+                            </View>
+                        );
+                    })}
+                </ScrollView>
+
+                <View style={styles.buttons}>
+                    <Button title="Cancel" onPress={onCancel} color="#666" />
+                    <Button title="Create Branch" onPress={handleConfirm} />
+                </View>
+            </View>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        position: 'absolute',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        justifyContent: 'center',
+        alignItems: 'center',
+        zIndex: 1000,
+    },
+    modal: {
+        backgroundColor: 'white',
+        padding: 30,
+        borderRadius: 12,
+        width: '90%',
+        height: '90%',
+    },
+    title: {
+        fontSize: 24,
+        fontWeight: 'bold',
+        marginBottom: 5,
+    },
+    hint: {
+        fontSize: 12,
+        color: '#666',
+        marginBottom: 15,
+    },
+    fileList: {
+        flex: 1,
+    },
+    file: {
+        borderWidth: 1,
+        borderColor: '#ddd',
+        borderRadius: 8,
+        padding: 10,
+        marginBottom: 15,
+    },
+    fileHeader: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: 10,
+    },
+    fileName: {
+        fontWeight: 'bold',
+        flex: 1,
+    },
+    actions: {
+        flexDirection: 'row',
+        gap: 5,
+    },
+    error: {
+        color: 'red',
+        marginBottom: 5,
+    },
+    warning: {
+        color: 'orange',
+        fontSize: 12,
+        marginBottom: 5,
+    },
+    fallbackRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        marginBottom: 10,
+    },
+    select: {
+        padding: 5,
+        marginLeft: 5,
+    },
+    editor: {
+        borderWidth: 1,
+        borderColor: '#ccc',
+        borderRadius: 6,
+        padding: 10,
+        height: 300,
+        fontFamily: 'monospace',
+        fontSize: 12,
+        marginBottom: 10,
+    },
+    diffs: {
+        flexDirection: 'row',
+        gap: 10,
+        height: 400,
+    },
+    diff: {
+        flex: 1,
+    },
+    diffLabel: {
+        fontSize: 12,
+        fontWeight: '600',
+        color: '#555',
+        marginBottom: 5,
+    },
+    buttons: {
+        flexDirection: 'row',
+        justifyContent: 'flex-end',
+        gap: 10,
+        marginTop: 20,
+    },
+});
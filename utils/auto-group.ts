@@ -0,0 +1,130 @@
+import { createTwoFilesPatch } from 'diff';
+import { FileDiff, getFileBlob, isBinaryBlob } from './git-engine';
+import { LLMConfig, LLMPrompt, completeLLM, getContextTokens } from './llm-service';
+
+// A group as proposed by the model, before it becomes a Group in the groups panel
+export interface GroupProposal {
+    name: string;
+    prompt: string;
+    files: string[];
+}
+
+interface GroupingFile {
+    path: string;
+    status: FileDiff['status'];
+    oldPath?: string;
+    // Changed lines only, cut to the file's share of the context window
+    diff: string;
+}
+
+// Share of the context window spent on diffs; the rest is left for the file list and the reply
+const DIFF_BUDGET = 0.5;
+const MIN_DIFF_CHARS = 200;
+
+function condensedDiff(path: string, base: string, target: string, maxChars: number): string {
+    const patch = createTwoFilesPatch(path, path, base, target, undefined, undefined, { context: 0 });
+    // Drop the header lines, the path is given separately
+    const body = patch.split('\n').filter(line => !/^(={3,}|-{3} |\+{3} |Index: )/.test(line)).join('\n').trim();
+    return body.length > maxChars ? `${body.slice(0, maxChars)}\n... (${body.length - maxChars} more characters)` : body;
+}
+
+async function readText(ref: string, path: string): Promise<string | null> {
+    const blob = await getFileBlob(ref, path);
+    if (!blob) return '';
+    return isBinaryBlob(blob) ? null : Buffer.from(blob).toString('utf8');
+}
+
+async function buildGroupingFiles(mergeBase: string, targetRef: string, files: FileDiff[], config: LLMConfig): Promise<GroupingFile[]> {
+    const maxChars = Math.max(MIN_DIFF_CHARS, Math.floor(getContextTokens(config) * 4 * DIFF_BUDGET / Math.max(1, files.length)));
+    const result: GroupingFile[] = [];
+    for (const file of files) {
+        const base = await readText(mergeBase, file.oldPath ?? file.path);
+        const target = await readText(targetRef, file.path);
+        const diff = base === null || target === null
+            ? '(binary file)'
+            : condensedDiff(file.path, base, target, maxChars);
+        result.push({ path: file.path, status: file.status, oldPath: file.oldPath, diff });
+    }
+    return result;
+}
+
+function buildGroupingPrompt(files: GroupingFile[]): LLMPrompt {
+    const described = files.map(f => {
+        const status = f.oldPath ? `${f.status} from ${f.oldPath}` : f.status;
+        return `### ${f.path} (${status})\n${f.diff}`;
+    }).join('\n\n');
+
+    return {
+        system: 'You are a code assistant that helps split large pull requests into smaller ones that can be reviewed and merged one after another. Group the changed files by the concern they belong to (a feature, a refactoring, a fix, configuration, tests of one of those, ...). Every file must be in exactly one group. Return only JSON, nothing else.',
+        user: `Changed files:
+${files.map(f => `- ${f.path}`).join('\n')}
+
+Changes per file (changed lines only, possibly cut short):
+
+${described}
+
+Return JSON of this shape:
+{"groups": [{"name": "short group name", "prompt": "one or two sentences describing which changes belong to this group", "files": ["path", ...]}]}
+
+Order the groups so that each one only depends on groups before it. Use every path from the list exactly once, spelled exactly as given.`,
+    };
+}
+
+// Reads the proposal out of a model response and checks that it assigns every file exactly once
+export function parseGroupProposal(response: string, paths: string[]): GroupProposal[] {
+    const start = response.indexOf('{');
+    const end = response.lastIndexOf('}');
+    if (start === -1 || end < start) {
+        throw new Error('The LLM did not return a JSON grouping');
+    }
+
+    let data: any;
+    try {
+        data = JSON.parse(response.slice(start, end + 1));
+    } catch (e: any) {
+        throw new Error(`The LLM returned invalid JSON: ${e.message}`);
+    }
+    if (!Array.isArray(data?.groups) || data.groups.length === 0) {
+        throw new Error('The LLM grouping has no groups');
+    }
+
+    const known = new Set(paths);
+    const seen = new Map<string, string>();
+    const problems: string[] = [];
+    const groups: GroupProposal[] = data.groups.map((group: any, i: number) => {
+        const name = typeof group?.name === 'string' && group.name.trim() ? group.name.trim() : `Group ${i + 1}`;
+        const files: unknown[] = Array.isArray(group?.files) ? group.files : [];
+        for (const file of files) {
+            if (typeof file !== 'string' || !known.has(file)) {
+                problems.push(`'${String(file)}' in '${name}' is not a changed file`);
+            } else if (seen.has(file)) {
+                const other = seen.get(file);
+                problems.push(other === name ? `'${file}' is listed twice in '${name}'` : `'${file}' is in both '${other}' and '${name}'`);
+            } else {
+                seen.set(file, name);
+            }
+        }
+        return {
+            name,
+            prompt: typeof group?.prompt === 'string' ? group.prompt.trim() : '',
+            files: files.filter((f): f is string => typeof f === 'string'),
+        };
+    });
+
+    const missing = paths.filter(p => !seen.has(p));
+    if (missing.length > 0) {
+        problems.push(`Not in any group: ${missing.join(', ')}`);
+    }
+    if (problems.length > 0) {
+        throw new Error(`The LLM grouping is invalid. ${problems.join('; ')}`);
+    }
+    return groups.filter(g => g.files.length > 0);
+}
+
+// Asks the configured model to group the changed files between the merge-base and targetRef
+export async function proposeGroups(mergeBase: string, targetRef: string, files: FileDiff[], config: LLMConfig, signal?: AbortSignal): Promise<GroupProposal[]> {
+    if (files.length === 0) return [];
+    const prompt = buildGroupingPrompt(await buildGroupingFiles(mergeBase, targetRef, files, config));
+    const response = await completeLLM(prompt, config, signal);
+    return parseGroupProposal(response, files.map(f => f.path));
+}
@@ -0,0 +1,80 @@
+import { createTwoFilesPatch } from 'diff';
+import { TreeChange, getFileBlob, isBinaryBlob, isValidBranchName } from './git-engine';
+import { LLMConfig, LLMPrompt, completeLLM, getContextTokens } from './llm-service';
+
+// What a split branch is created as: its name, the commit message and a PR description to go with it
+export interface BranchDescription {
+    branch: string;
+    message: string;
+    pullRequest: string;
+}
+
+// Share of the context window spent on the diff; the rest is left for the reply
+const DIFF_BUDGET = 0.6;
+
+function decode(content: Uint8Array | string | null): string | null {
+    if (content === null) return '';
+    if (typeof content === 'string') return content;
+    return isBinaryBlob(content) ? null : Buffer.from(content).toString('utf8');
+}
+
+// The diff a branch's commit will make on top of `parent`, cut to `maxChars`
+async function diffOfChanges(parent: string, changes: TreeChange[], maxChars: number): Promise<string> {
+    const parts: string[] = [];
+    for (const change of changes) {
+        const before = decode(await getFileBlob(parent, change.path));
+        const after = decode(change.content);
+        if (before === null || after === null) {
+            parts.push(`Binary file ${change.path} ${change.content === null ? 'deleted' : 'changed'}`);
+        } else if (before !== after) {
+            parts.push(createTwoFilesPatch(`a/${change.path}`, `b/${change.path}`, before, after, undefined, undefined, { context: 2 }));
+        }
+    }
+    const diff = parts.join('\n');
+    return diff.length > maxChars ? `${diff.slice(0, maxChars)}\n... (diff cut short)` : diff;
+}
+
+function buildDescriptionPrompt(name: string, prompt: string, diff: string): LLMPrompt {
+    return {
+        system: 'You are a code assistant that writes git metadata for one part of a pull request that is being split up. Return only JSON, nothing else.',
+        user: `The changes of this part were grouped as "${name}"${prompt ? ` with the description: ${prompt}` : ''}.
+
+Diff:
+${diff}
+
+Return JSON of this shape:
+{"branch": "a short git branch name, lowercase, words separated by '-', optionally prefixed like 'feat/' or 'fix/'", "subject": "a Conventional Commits subject line, e.g. 'feat(parser): support comments', at most 72 characters", "body": "the commit message body: what changed and why, wrapped at 72 characters", "pullRequest": "a markdown pull request description with a summary and a list of the changes"}`,
+    };
+}
+
+// Reads the description out of a model response. Fields the model got wrong fall back to `fallback`.
+export function parseBranchDescription(response: string, fallback: BranchDescription): BranchDescription {
+    const start = response.indexOf('{');
+    const end = response.lastIndexOf('}');
+    let data: any;
+    try {
+        data = start === -1 || end < start ? null : JSON.parse(response.slice(start, end + 1));
+    } catch {
+        data = null;
+    }
+    if (!data) {
+        throw new Error('The LLM did not return a JSON description');
+    }
+
+    const text = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+    const branch = text(data.branch);
+    const subject = text(data.subject).split('\n')[0];
+    const body = text(data.body);
+    return {
+        branch: isValidBranchName(branch) ? branch : fallback.branch,
+        message: subject ? (body ? `${subject}\n\n${body}` : subject) : fallback.message,
+        pullRequest: text(data.pullRequest) || fallback.pullRequest,
+    };
+}
+
+// Asks the configured model to name and describe the commit that applies `changes` on top of `parent`
+export async function describeBranch(name: string, prompt: string, parent: string, changes: TreeChange[], fallback: BranchDescription, config: LLMConfig): Promise<BranchDescription> {
+    const diff = await diffOfChanges(parent, changes, Math.floor(getContextTokens(config) * 4 * DIFF_BUDGET));
+    const response = await completeLLM(buildDescriptionPrompt(name, prompt, diff), config);
+    return parseBranchDescription(response, fallback);
+}
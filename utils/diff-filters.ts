@@ -0,0 +1,73 @@
+import { DiffOptions } from './diff-hunks';
+import { FileDiff } from './git-engine';
+import { globToRegExp } from './group-heuristics';
+
+// What is left out of the changed files and diffs
+export interface DiffFilters extends DiffOptions {
+    hideGenerated?: boolean;
+    // Patterns of generated files, one per line; a trailing '/' matches a directory anywhere
+    generatedPatterns?: string;
+}
+
+export const DEFAULT_GENERATED_PATTERNS = [
+    'package-lock.json',
+    'yarn.lock',
+    'pnpm-lock.yaml',
+    'bun.lockb',
+    'Cargo.lock',
+    'Gemfile.lock',
+    'poetry.lock',
+    'composer.lock',
+    'go.sum',
+    '*.snap',
+    '*.min.{js,css}',
+    '*.map',
+    'dist/',
+].join('\n');
+
+export const DEFAULT_DIFF_FILTERS: DiffFilters = {
+    ignoreWhitespace: false,
+    ignoreLineEndings: false,
+    hideGenerated: false,
+    generatedPatterns: DEFAULT_GENERATED_PATTERNS,
+};
+
+// Reads patterns written one per line; blank lines and # comments are skipped
+export function parseGeneratedPatterns(text: string): RegExp[] {
+    return text.split('\n')
+        .map(line => line.trim())
+        .filter(line => line && !line.startsWith('#'))
+        .map(pattern => {
+            if (!pattern.endsWith('/')) return globToRegExp(pattern);
+            // Like .gitignore: 'dist/' is a directory anywhere, 'web/dist/' one at that path
+            const directory = pattern.slice(0, -1);
+            return globToRegExp(directory.replace(/^\//, '').includes('/') ? `${directory}/**` : `**/${directory}/**`);
+        });
+}
+
+export function isGeneratedFile(path: string, patterns: RegExp[]): boolean {
+    return patterns.some(p => p.test(path));
+}
+
+// The changed files the filters keep. Renamed and copied files stay even when their content
+// changes are ignored, since the move itself is a change.
+export function filterChangedFiles(files: FileDiff[], filters: DiffFilters): FileDiff[] {
+    const patterns = filters.hideGenerated ? parseGeneratedPatterns(filters.generatedPatterns ?? DEFAULT_GENERATED_PATTERNS) : [];
+    return files.filter(file => {
+        if (isGeneratedFile(file.path, patterns)) return false;
+        if (file.status !== 'modified' || !file.formatting) return true;
+        return !(filters.ignoreWhitespace || (filters.ignoreLineEndings && file.formatting === 'line-endings'));
+    });
+}
+
+export function saveDiffFilters(filters: DiffFilters) {
+    localStorage.setItem('diff-filters', JSON.stringify(filters));
+}
+
+export function loadDiffFilters(): DiffFilters {
+    try {
+        return { ...DEFAULT_DIFF_FILTERS, ...JSON.parse(localStorage.getItem('diff-filters') ?? '{}') };
+    } catch {
+        return DEFAULT_DIFF_FILTERS;
+    }
+}
@@ -0,0 +1,274 @@
+import { Change, applyPatch, diffArrays, diffLines, diffWordsWithSpace, structuredPatch } from 'diff';
+
+export const CONTEXT_LINES = 3;
+
+export interface Hunk {
+    changes: Change[];
+    // 0-based line ranges the hunk covers, context lines included
+    startLineOriginal: number;
+    startLineModified: number;
+    linesOriginal: number;
+    linesModified: number;
+}
+
+// Changes the line diff treats as unchanged, like `git diff -w` and `--ignore-cr-at-eol`
+export interface DiffOptions {
+    ignoreWhitespace?: boolean;
+    ignoreLineEndings?: boolean;
+}
+
+// What a file's changes amount to when they would all vanish under one of the DiffOptions
+export type FormattingChange = 'whitespace' | 'line-endings';
+
+// A contiguous run of added/removed lines, as 0-based [start, end) line ranges
+export interface Region {
+    startOriginal: number;
+    endOriginal: number;
+    startModified: number;
+    endModified: number;
+}
+
+// Splits text into lines, keeping each line's terminator so joining them restores the text exactly
+export function splitLines(text: string): string[] {
+    return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+function block(lines: string[], kind: 'added' | 'removed' | 'context'): Change[] {
+    if (lines.length === 0) return [];
+    return [{ value: lines.join(''), count: lines.length, added: kind === 'added', removed: kind === 'removed' }];
+}
+
+// A line reduced to what the options compare; whitespace includes the line terminator
+function normalizeLine(line: string, options: DiffOptions): string {
+    if (options.ignoreWhitespace) return line.replace(/\s+/g, '');
+    if (options.ignoreLineEndings) return line.replace(/\r\n$/, '\n');
+    return line;
+}
+
+// Whether the two texts only differ in whitespace or line endings, line by line
+export function formattingChange(original: string, modified: string): FormattingChange | null {
+    if (original === modified) return null;
+    const originalLines = splitLines(original);
+    const modifiedLines = splitLines(modified);
+    if (originalLines.length !== modifiedLines.length) return null;
+    for (const kind of ['line-endings', 'whitespace'] as const) {
+        const options = kind === 'line-endings' ? { ignoreLineEndings: true } : { ignoreWhitespace: true };
+        if (originalLines.every((line, i) => normalizeLine(line, options) === normalizeLine(modifiedLines[i], options))) return kind;
+    }
+    return null;
+}
+
+// Line diff as runs of line counts; with options, the normalized lines are diffed instead
+function lineDiff(original: string, modified: string, options: DiffOptions): { added?: boolean; removed?: boolean; count: number }[] {
+    if (!options.ignoreWhitespace && !options.ignoreLineEndings) {
+        return diffLines(original, modified).map(change => ({ ...change, count: splitLines(change.value).length }));
+    }
+    const normalize = (text: string) => splitLines(text).map(line => normalizeLine(line, options));
+    return diffArrays(normalize(original), normalize(modified)).map(change => ({ ...change, count: change.value.length }));
+}
+
+// Line diff of two texts as contiguous runs of changes, without any context
+export function computeRegions(original: string, modified: string, options: DiffOptions = {}): Region[] {
+    const regions: Region[] = [];
+    let lineOriginal = 0;
+    let lineModified = 0;
+    for (const { added, removed, count } of lineDiff(original, modified, options)) {
+        if (added || removed) {
+            let region = regions[regions.length - 1];
+            if (!region || region.endOriginal !== lineOriginal || region.endModified !== lineModified) {
+                region = { startOriginal: lineOriginal, endOriginal: lineOriginal, startModified: lineModified, endModified: lineModified };
+                regions.push(region);
+            }
+            if (added) {
+                lineModified += count;
+                region.endModified = lineModified;
+            } else {
+                lineOriginal += count;
+                region.endOriginal = lineOriginal;
+            }
+        } else {
+            lineOriginal += count;
+            lineModified += count;
+        }
+    }
+    return regions;
+}
+
+// Groups the line diff of two texts into hunks with `context` lines of context around each
+// change, merging changes that are closer than 2 * context apart (like `diff -U3`).
+export function computeHunks(original: string, modified: string, context = CONTEXT_LINES, options: DiffOptions = {}): Hunk[] {
+    const originalLines = splitLines(original);
+    const modifiedLines = splitLines(modified);
+    const regions = computeRegions(original, modified, options);
+
+    const hunks: Hunk[] = [];
+    let i = 0;
+    while (i < regions.length) {
+        // Collect the regions that share this hunk's context
+        let j = i;
+        while (j + 1 < regions.length && regions[j + 1].startOriginal - regions[j].endOriginal <= context * 2) {
+            j++;
+        }
+
+        const first = regions[i];
+        const last = regions[j];
+        const leading = Math.min(context, first.startOriginal);
+        const trailing = Math.min(context, originalLines.length - last.endOriginal);
+
+        const changes: Change[] = [...block(originalLines.slice(first.startOriginal - leading, first.startOriginal), 'context')];
+        for (let k = i; k <= j; k++) {
+            const region = regions[k];
+            changes.push(...block(originalLines.slice(region.startOriginal, region.endOriginal), 'removed'));
+            changes.push(...block(modifiedLines.slice(region.startModified, region.endModified), 'added'));
+            const next = k < j ? regions[k + 1].startOriginal : region.endOriginal + trailing;
+            changes.push(...block(originalLines.slice(region.endOriginal, next), 'context'));
+        }
+
+        const startLineOriginal = first.startOriginal - leading;
+        const startLineModified = first.startModified - leading;
+        hunks.push({
+            changes,
+            startLineOriginal,
+            startLineModified,
+            linesOriginal: last.endOriginal + trailing - startLineOriginal,
+            linesModified: last.endModified + trailing - startLineModified,
+        });
+        i = j + 1;
+    }
+
+    return hunks;
+}
+
+// Builds a version of `original` that carries only the selected hunks (by index into
+// computeHunks(original, modified)); everything else stays as it is in `original`.
+export function applyHunks(original: string, modified: string, selected: number[]): string {
+    const originalLines = splitLines(original);
+    const modifiedLines = splitLines(modified);
+    const hunks = computeHunks(original, modified);
+
+    const result: string[] = [];
+    let position = 0;
+    for (const index of [...new Set(selected)].sort((a, b) => a - b)) {
+        const hunk = hunks[index];
+        if (!hunk) continue;
+        result.push(...originalLines.slice(position, hunk.startLineOriginal));
+        result.push(...modifiedLines.slice(hunk.startLineModified, hunk.startLineModified + hunk.linesModified));
+        position = hunk.startLineOriginal + hunk.linesOriginal;
+    }
+    result.push(...originalLines.slice(position));
+    return result.join('');
+}
+
+// Applies the selected hunks of computeHunks(original, modified) onto `other`, a version of the
+// file that has already moved on from `original`. Returns null if they don't fit there.
+export function applyHunksOnto(other: string, original: string, modified: string, selected: number[]): string | null {
+    const picked = applyHunks(original, modified, selected);
+    const result = applyPatch(other, structuredPatch('a', 'b', original, picked));
+    return result === false ? null : result;
+}
+
+// One displayed line of a hunk, with 1-based line numbers in the original and modified text
+export interface DiffLine {
+    kind: 'context' | 'added' | 'removed';
+    // Without the line terminator
+    text: string;
+    oldLine?: number;
+    newLine?: number;
+}
+
+function stripTerminator(line: string): string {
+    return line.replace(/\r?\n$/, '');
+}
+
+export function hunkLines(hunk: Hunk): DiffLine[] {
+    const lines: DiffLine[] = [];
+    let oldLine = hunk.startLineOriginal + 1;
+    let newLine = hunk.startLineModified + 1;
+    for (const change of hunk.changes) {
+        for (const line of splitLines(change.value)) {
+            const text = stripTerminator(line);
+            if (change.added) {
+                lines.push({ kind: 'added', text, newLine: newLine++ });
+            } else if (change.removed) {
+                lines.push({ kind: 'removed', text, oldLine: oldLine++ });
+            } else {
+                lines.push({ kind: 'context', text, oldLine: oldLine++, newLine: newLine++ });
+            }
+        }
+    }
+    return lines;
+}
+
+// Unchanged lines [start, end) of the original text, numbered as lines of both texts;
+// `offset` is how far the modified text's line numbers are ahead at that point
+export function contextLines(originalLines: string[], start: number, end: number, offset: number): DiffLine[] {
+    return originalLines.slice(start, end).map((line, i) => ({
+        kind: 'context',
+        text: stripTerminator(line),
+        oldLine: start + i + 1,
+        newLine: start + i + 1 + offset,
+    }));
+}
+
+// The `@@ -l,s +l,s @@` header of a hunk. Like diff, an empty range is numbered by the line before it.
+export function hunkHeader(hunk: Hunk): string {
+    const range = (start: number, count: number) => `${count === 0 ? start : start + 1}${count === 1 ? '' : `,${count}`}`;
+    return `@@ -${range(hunk.startLineOriginal, hunk.linesOriginal)} +${range(hunk.startLineModified, hunk.linesModified)} @@`;
+}
+
+// Pairs lines for a side-by-side view: removed lines next to the lines added in their place,
+// context lines next to themselves
+export function pairLines(lines: DiffLine[]): { left?: DiffLine; right?: DiffLine }[] {
+    const rows: { left?: DiffLine; right?: DiffLine }[] = [];
+    let i = 0;
+    while (i < lines.length) {
+        if (lines[i].kind === 'context') {
+            rows.push({ left: lines[i], right: lines[i] });
+            i++;
+            continue;
+        }
+        const removed: DiffLine[] = [];
+        const added: DiffLine[] = [];
+        while (i < lines.length && lines[i].kind === 'removed') removed.push(lines[i++]);
+        while (i < lines.length && lines[i].kind === 'added') added.push(lines[i++]);
+        for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+            rows.push({ left: removed[k], right: added[k] });
+        }
+    }
+    return rows;
+}
+
+// Character range [start, end) within a line
+export interface TextRange {
+    start: number;
+    end: number;
+}
+
+// Lines sharing less than this share of their text are shown as replaced whole, without word highlights
+const MIN_WORD_DIFF_SIMILARITY = 0.4;
+
+// The words that differ between a removed line and the line added in its place, as ranges of each
+export function wordDiffRanges(oldText: string, newText: string): { removed: TextRange[]; added: TextRange[] } | null {
+    const removed: TextRange[] = [];
+    const added: TextRange[] = [];
+    let oldPosition = 0;
+    let newPosition = 0;
+    let common = 0;
+    for (const part of diffWordsWithSpace(oldText, newText)) {
+        const length = part.value.length;
+        if (part.removed) {
+            removed.push({ start: oldPosition, end: oldPosition + length });
+            oldPosition += length;
+        } else if (part.added) {
+            added.push({ start: newPosition, end: newPosition + length });
+            newPosition += length;
+        } else {
+            common += part.value.trim().length;
+            oldPosition += length;
+            newPosition += length;
+        }
+    }
+    const longest = Math.max(oldText.trim().length, newText.trim().length);
+    if (longest === 0 || common / longest < MIN_WORD_DIFF_SIMILARITY) return null;
+    return { removed, added };
+}
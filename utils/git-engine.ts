@@ -1,4 +1,6 @@
+import { diffLines } from 'diff';
 import git from 'isomorphic-git';
+import { FormattingChange, formattingChange } from './diff-hunks';
 import fs, { setRootHandle } from './fs-adapter';
 
 const dir = '/';
@@ -21,42 +23,99 @@ export async function getCurrentBranch() {
     return await git.currentBranch({ fs, dir });
 }
 
-export async function createBranch(name: string) {
-    await git.branch({ fs, dir, ref: name });
-}
-
-export async function checkout(ref: string) {
-    await git.checkout({ fs, dir, ref });
+// The rules of `git check-ref-format --branch`
+export function isValidBranchName(name: string): boolean {
+    return name.length > 0
+        && name !== '@'
+        && !name.startsWith('-')
+        && !name.endsWith('.')
+        && !name.includes('..')
+        && !name.includes('@{')
+        && !/[\x00-\x20\x7f~^:?*[\\]/.test(name)
+        && name.split('/').every(part => part !== '' && !part.startsWith('.') && !part.endsWith('.lock'));
 }
 
 export interface FileDiff {
     path: string;
-    status: 'added' | 'modified' | 'deleted' | 'unmodified';
+    status: 'added' | 'modified' | 'deleted' | 'unmodified' | 'renamed' | 'copied';
+    // Source path in the base tree, for renamed and copied files
+    oldPath?: string;
+    // Content similarity (0-100) between oldPath and path, for renamed and copied files
+    similarity?: number;
+    // Set when the content changes are nothing but whitespace or line endings
+    formatting?: FormattingChange;
+    // Git file mode in the newer tree ('100644', '100755' executable, '120000' symlink), unless deleted
+    mode?: string;
+    // Git file mode in the older tree, for files that were there
+    oldMode?: string;
 }
 
-export async function getChangedFiles(baseBranch: string, targetBranch: string): Promise<FileDiff[]> {
-    // This is a simplified diff. Real diffing requires comparing trees.
-    // We will compare targetBranch (e.g. 'feature') against baseBranch (e.g. 'main')
+// Same default as git's -M/-C: pairs below 50% similarity are left as add/delete.
+const RENAME_THRESHOLD = 50;
+// Content pairing is quadratic, so give up on inexact matches past this many comparisons.
+const MAX_RENAME_CANDIDATES = 10000;
+// Files bigger than this (in characters) are only paired on exact matches: diffing them blocks the page.
+const MAX_RENAME_FILE_SIZE = 128 * 1024;
 
+// Merge-bases keyed by "<baseOid>..<targetOid>". Keyed by commit oids rather
+// than branch names so that moving either branch naturally misses the cache.
+const mergeBaseCache = new Map<string, string>();
+
+// Finds the commit where targetBranch forked off baseBranch (like `git merge-base`).
+export async function getMergeBase(baseBranch: string, targetBranch: string): Promise<string> {
     const baseCommit = await git.resolveRef({ fs, dir, ref: baseBranch });
     const targetCommit = await git.resolveRef({ fs, dir, ref: targetBranch });
 
-    const { walk, TREE, WORKDIR } = git;
+    const key = `${baseCommit}..${targetCommit}`;
+    const cached = mergeBaseCache.get(key);
+    if (cached) return cached;
+
+    const [mergeBase] = await git.findMergeBase({ fs, dir, oids: [baseCommit, targetCommit] });
+    if (!mergeBase) {
+        throw new Error(`'${baseBranch}' and '${targetBranch}' have no common ancestor`);
+    }
+    mergeBaseCache.set(key, mergeBase);
+    return mergeBase;
+}
+
+export async function getChangedFiles(baseBranch: string, targetBranch: string): Promise<FileDiff[]> {
+    // Three-dot comparison (base...target): diff targetBranch against the point where it
+    // forked off baseBranch, so commits that landed on baseBranch afterwards don't show up.
+    const mergeBase = await getMergeBase(baseBranch, targetBranch);
+    return await getChangedFilesBetween(mergeBase, targetBranch);
+}
 
-    // We want to compare the two trees.
-    // Actually, usually we want to compare the WORKDIR (or current HEAD) vs a base branch.
-    // The user requirement: "get current git branch compare to master/main/other branch"
+// The files, with `formatting` set on the text files whose changes are only whitespace or line
+// endings. This reads both versions of every changed file, so callers only do it when they need to.
+export async function markFormattingChanges(files: FileDiff[], fromRef: string, toRef: string): Promise<FileDiff[]> {
+    const marked: FileDiff[] = [];
+    for (const file of files) {
+        marked.push(file);
+        if (file.status !== 'modified' && file.status !== 'renamed' && file.status !== 'copied') continue;
+        const before = await getFileBlob(fromRef, file.oldPath ?? file.path);
+        const after = await getFileBlob(toRef, file.path);
+        if (!before || !after || isBinaryBlob(before) || isBinaryBlob(after)) continue;
+        const formatting = formattingChange(Buffer.from(before).toString('utf8'), Buffer.from(after).toString('utf8'));
+        if (formatting) marked[marked.length - 1] = { ...file, formatting };
+    }
+    return marked;
+}
 
-    // Let's assume we compare HEAD vs baseBranch.
+// Two-dot comparison: every file that differs between the trees of fromRef and toRef
+export async function getChangedFilesBetween(fromRef: string, toRef: string): Promise<FileDiff[]> {
+    const { walk, TREE } = git;
 
     const files: FileDiff[] = [];
+    // Blob oids of changed files, needed to pair up renames and copies after the walk
+    const baseOids = new Map<string, string>();
+    const targetOids = new Map<string, string>();
 
     try {
         console.error('[GitEngine] starting walk with fs:', Object.keys(fs.promises));
         await walk({
             fs,
             dir,
-            trees: [TREE({ ref: baseBranch }), TREE({ ref: targetBranch })],
+            trees: [TREE({ ref: fromRef }), TREE({ ref: toRef })],
             map: async (filepath, [baseEntry, targetEntry]) => {
                 if (filepath === '.') return;
 
@@ -67,13 +126,19 @@ export async function getChangedFiles(baseBranch: string, targetBranch: string):
 
                 const baseOid = await baseEntry?.oid();
                 const targetOid = await targetEntry?.oid();
+                const oldMode = baseOid ? modeString(await baseEntry!.mode()) : undefined;
+                const mode = targetOid ? modeString(await targetEntry!.mode()) : undefined;
 
                 if (!baseOid && targetOid) {
-                    files.push({ path: filepath, status: 'added' });
+                    files.push({ path: filepath, status: 'added', mode });
+                    targetOids.set(filepath, targetOid);
                 } else if (baseOid && !targetOid) {
-                    files.push({ path: filepath, status: 'deleted' });
-                } else if (baseOid !== targetOid) {
-                    files.push({ path: filepath, status: 'modified' });
+                    files.push({ path: filepath, status: 'deleted', oldMode });
+                    baseOids.set(filepath, baseOid);
+                } else if (baseOid && targetOid && (baseOid !== targetOid || oldMode !== mode)) {
+                    files.push({ path: filepath, status: 'modified', mode, oldMode });
+                    baseOids.set(filepath, baseOid);
+                    targetOids.set(filepath, targetOid);
                 }
             },
         });
@@ -85,19 +150,256 @@ export async function getChangedFiles(baseBranch: string, targetBranch: string):
         throw e;
     }
 
-    return files;
+    return await detectRenames(files, baseOids, targetOids);
 }
 
-export async function getFileContent(ref: string, filepath: string): Promise<string> {
+function modeString(mode: number): string {
+    return mode.toString(8).padStart(6, '0');
+}
+
+async function readBlobText(oid: string): Promise<string> {
+    const { blob } = await git.readBlob({ fs, dir, oid });
+    return Buffer.from(blob).toString('utf8');
+}
+
+// Percentage of lines the two texts have in common, in the spirit of git's similarity index.
+function similarityIndex(a: string, b: string): number {
+    if (a === b) return 100;
+    let common = 0;
+    let total = 0;
+    for (const change of diffLines(a, b)) {
+        const count = change.count ?? 0;
+        if (!change.added && !change.removed) {
+            common += count * 2;
+        }
+        total += change.added || change.removed ? count : count * 2;
+    }
+    return total === 0 ? 0 : Math.floor((common / total) * 100);
+}
+
+// Pairs added files with deleted (renamed) or modified (copied) files of the base tree,
+// so that a moved file is a single entry instead of an unrelated delete and add.
+async function detectRenames(files: FileDiff[], baseOids: Map<string, string>, targetOids: Map<string, string>): Promise<FileDiff[]> {
+    const added = files.filter(f => f.status === 'added');
+    const deleted = files.filter(f => f.status === 'deleted');
+    const modified = files.filter(f => f.status === 'modified');
+    if (added.length === 0 || (deleted.length === 0 && modified.length === 0)) return files;
+
+    const sources = [...deleted, ...modified];
+    const matched = new Map<FileDiff, { source: FileDiff, similarity: number }>();
+
+    // 1. Exact content matches are cheap: compare blob oids.
+    for (const file of added) {
+        const oid = targetOids.get(file.path);
+        const source = deleted.find(d => baseOids.get(d.path) === oid)
+            || modified.find(m => baseOids.get(m.path) === oid);
+        if (source) matched.set(file, { source, similarity: 100 });
+    }
+
+    // 2. Inexact matches: score every remaining added file against every source.
+    const unmatched = added.filter(f => !matched.has(f));
+    if (unmatched.length > 0 && unmatched.length * sources.length <= MAX_RENAME_CANDIDATES) {
+        const texts = new Map<string, string>();
+        const text = async (oid: string) => {
+            if (!texts.has(oid)) texts.set(oid, await readBlobText(oid));
+            return texts.get(oid)!;
+        };
+
+        for (const file of unmatched) {
+            const content = await text(targetOids.get(file.path)!);
+            if (content.length > MAX_RENAME_FILE_SIZE) continue;
+            let best: { source: FileDiff, similarity: number } | undefined;
+            for (const source of sources) {
+                const original = await text(baseOids.get(source.path)!);
+                // Like git, skip pairs more than 2x apart in size: they can't reach the threshold
+                if (original.length > MAX_RENAME_FILE_SIZE || Math.min(original.length, content.length) * 2 < Math.max(original.length, content.length)) continue;
+                const similarity = similarityIndex(original, content);
+                // Prefer deleted sources on ties, so a move wins over a copy
+                if (similarity >= RENAME_THRESHOLD && (!best || similarity > best.similarity)) {
+                    best = { source, similarity };
+                }
+            }
+            if (best) matched.set(file, best);
+        }
+    }
+
+    // A deleted source is consumed by its first pairing (a rename); any further pairings are copies.
+    const consumed = new Set<FileDiff>();
+    const result: FileDiff[] = [];
+    for (const file of files) {
+        const match = matched.get(file);
+        if (match) {
+            const isRename = match.source.status === 'deleted' && !consumed.has(match.source);
+            if (isRename) consumed.add(match.source);
+            result.push({
+                path: file.path,
+                status: isRename ? 'renamed' : 'copied',
+                oldPath: match.source.path,
+                similarity: match.similarity,
+                mode: file.mode,
+                oldMode: match.source.oldMode,
+            });
+        } else {
+            result.push(file);
+        }
+    }
+    return result.filter(f => !consumed.has(f));
+}
+
+// First parent of the commit at ref, or null for a root commit
+export async function getParentCommit(ref: string): Promise<string | null> {
+    const oid = await git.resolveRef({ fs, dir, ref });
+    const { commit } = await git.readCommit({ fs, dir, oid });
+    return commit.parent[0] ?? null;
+}
+
+// A file to change in a commit built by commitFilesToBranch; content null deletes the file.
+export interface TreeChange {
+    path: string;
+    content: Uint8Array | string | null;
+    // Git file mode to write; left out, an existing file keeps its mode and a new one gets 100644
+    mode?: string;
+}
+
+// A blob to write into a tree, or null to delete the entry
+type TreeEntryChange = { oid: string; mode?: string } | null;
+
+export interface CommitAuthor {
+    name: string;
+    email: string;
+}
+
+// Rewrites the tree `treeOid` (undefined for a tree that doesn't exist yet) with `changes`,
+// keyed by path relative to that tree. Returns the new tree oid, or null if the tree ends up empty.
+async function writeTreeWith(treeOid: string | undefined, changes: Map<string, TreeEntryChange>): Promise<string | null> {
+    const entries = treeOid ? (await git.readTree({ fs, dir, oid: treeOid })).tree : [];
+    const byName = new Map(entries.map(entry => [entry.path, entry]));
+
+    // Split changes into files directly in this tree and changes for each subtree
+    const subtrees = new Map<string, Map<string, TreeEntryChange>>();
+    for (const [path, change] of changes) {
+        const slash = path.indexOf('/');
+        if (slash === -1) {
+            if (change === null) {
+                byName.delete(path);
+            } else {
+                const existing = byName.get(path);
+                const mode = change.mode ?? (existing?.type === 'blob' ? existing.mode : '100644');
+                byName.set(path, { mode, path, oid: change.oid, type: 'blob' });
+            }
+        } else {
+            const name = path.slice(0, slash);
+            if (!subtrees.has(name)) subtrees.set(name, new Map());
+            subtrees.get(name)!.set(path.slice(slash + 1), change);
+        }
+    }
+
+    for (const [name, subChanges] of subtrees) {
+        const existing = byName.get(name);
+        const oid = await writeTreeWith(existing?.type === 'tree' ? existing.oid : undefined, subChanges);
+        if (oid) {
+            byName.set(name, { mode: '040000', path: name, oid, type: 'tree' });
+        } else {
+            byName.delete(name);
+        }
+    }
+
+    if (byName.size === 0) return null;
+    return await git.writeTree({ fs, dir, tree: [...byName.values()] });
+}
+
+// Creates branch `branchName` pointing at a new commit on top of `parent` that applies `changes`.
+// The commit is assembled from blobs and trees in the object store, so HEAD, the index and the
+// working directory are left untouched.
+export async function commitFilesToBranch(branchName: string, parent: string, changes: TreeChange[], message: string, author: CommitAuthor): Promise<string> {
+    const parentOid = await git.resolveRef({ fs, dir, ref: parent });
+    const { commit: parentCommit } = await git.readCommit({ fs, dir, oid: parentOid });
+
+    const blobs = new Map<string, TreeEntryChange>();
+    for (const change of changes) {
+        const path = change.path.split('/').filter(p => p !== '' && p !== '.').join('/');
+        if (change.content === null) {
+            blobs.set(path, null);
+        } else {
+            const blob = typeof change.content === 'string' ? Buffer.from(change.content, 'utf8') : change.content;
+            blobs.set(path, { oid: await git.writeBlob({ fs, dir, blob }), mode: change.mode });
+        }
+    }
+
+    const tree = await writeTreeWith(parentCommit.tree, blobs) ?? await git.writeTree({ fs, dir, tree: [] });
+
+    const signature = {
+        ...author,
+        timestamp: Math.floor(Date.now() / 1000),
+        timezoneOffset: new Date().getTimezoneOffset(),
+    };
+    const oid = await git.writeCommit({
+        fs,
+        dir,
+        commit: {
+            message,
+            tree,
+            parent: [parentOid],
+            author: signature,
+            committer: signature,
+        },
+    });
+
+    // Throws if the branch already exists rather than silently moving it
+    await git.writeRef({ fs, dir, ref: `refs/heads/${branchName}`, value: oid });
+    return oid;
+}
+
+// A file as stored at a ref: its blob id, size and bytes, plus its text unless the blob is binary
+export interface FileVersion {
+    oid: string;
+    size: number;
+    data: Uint8Array;
+    text: string | null;
+}
+
+// The version of filepath at ref, or null if the file doesn't exist there
+export async function getFileVersion(ref: string, filepath: string): Promise<FileVersion | null> {
     try {
-        const { blob } = await git.readBlob({
+        const { oid, blob } = await git.readBlob({
             fs,
             dir,
             oid: await git.resolveRef({ fs, dir, ref }),
             filepath
         });
-        return Buffer.from(blob).toString('utf8');
+        return { oid, size: blob.length, data: blob, text: isBinaryBlob(blob) ? null : Buffer.from(blob).toString('utf8') };
     } catch (e) {
-        return "";
+        return null;
     }
 }
+
+export async function getFileContent(ref: string, filepath: string): Promise<string> {
+    const version = await getFileVersion(ref, filepath);
+    return version ? Buffer.from(version.data).toString('utf8') : "";
+}
+
+// Raw blob of filepath at ref, or null if the file doesn't exist there
+export async function getFileBlob(ref: string, filepath: string): Promise<Uint8Array | null> {
+    return (await getFileVersion(ref, filepath))?.data ?? null;
+}
+
+// Paths of every file in the tree of ref
+export async function listFiles(ref: string): Promise<string[]> {
+    return await git.listFiles({ fs, dir, ref });
+}
+
+// Like git, treats a NUL byte in the first 8000 bytes as binary. Text that doesn't survive a
+// UTF-8 round trip (e.g. Latin-1) counts as binary too, since editing it as a string would corrupt it.
+export function isBinaryBlob(blob: Uint8Array): boolean {
+    if (blob.subarray(0, 8000).includes(0)) return true;
+    return !Buffer.from(Buffer.from(blob).toString('utf8'), 'utf8').equals(Buffer.from(blob));
+}
+
+// Rewrites the line endings of `text` to CRLF if `reference` uses CRLF throughout, so that edited
+// content (e.g. from the LLM) keeps the line endings of the file it came from. Text that has any
+// CR already, or a reference with mixed line endings, is left as it is: converting would touch
+// lines nobody changed.
+export function matchLineEndings(text: string, reference: string): string {
+    if (text.includes('\r') || !reference.includes('\r\n') || /(^|[^\r])\n/.test(reference)) return text;
+    return text.replace(/\n/g, '\r\n');
+}
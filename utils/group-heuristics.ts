@@ -0,0 +1,172 @@
+import { GroupProposal } from './auto-group';
+import { FileDiff } from './git-engine';
+
+// Deterministic groupings of the changed files, for when the code can't be sent to an LLM
+export type GroupingStrategy = 'directory' | 'kind' | 'change' | 'rules';
+
+// Files matching `pattern` go to the group called `group`; the first matching rule wins
+export interface GroupRule {
+    pattern: string;
+    group: string;
+}
+
+export type FileKind = 'tests' | 'docs' | 'config' | 'source';
+
+// Directories whose children are packages of a monorepo, so they group one level deeper
+const PACKAGE_ROOTS = ['packages', 'apps', 'libs', 'modules', 'services'];
+
+const KIND_NAMES: Record<FileKind, string> = {
+    tests: 'Tests',
+    docs: 'Docs',
+    config: 'Config',
+    source: 'Source',
+};
+
+const KIND_PROMPTS: Record<FileKind, string> = {
+    tests: 'Test changes',
+    docs: 'Documentation changes',
+    config: 'Configuration, build and dependency changes',
+    source: 'Source code changes',
+};
+
+const STATUS_NAMES: Record<FileDiff['status'], string> = {
+    added: 'Added files',
+    modified: 'Modified files',
+    deleted: 'Deleted files',
+    renamed: 'Renamed files',
+    copied: 'Copied files',
+    unmodified: 'Unmodified files',
+};
+
+const OTHER_GROUP = 'Other';
+
+// Package or top-level directory of a path; files at the root share '.'
+export function topLevelDirectory(path: string): string {
+    const parts = path.split('/');
+    if (parts.length === 1) return '.';
+    if (PACKAGE_ROOTS.includes(parts[0]) && parts.length > 2) return `${parts[0]}/${parts[1]}`;
+    return parts[0];
+}
+
+export function fileKind(path: string): FileKind {
+    const name = path.split('/').pop()!.toLowerCase();
+    const lower = path.toLowerCase();
+    if (/(^|\/)(__tests__|tests?|spec|e2e)\//.test(lower) || /\.(test|spec)\.[^.]+$/.test(name)) return 'tests';
+    if (/(^|\/)docs?\//.test(lower) || /\.(md|mdx|rst|txt|adoc)$/.test(name) || /^(readme|changelog|license|contributing)(\.|$)/.test(name)) return 'docs';
+    // Tool configs are named <tool>.config.<ext>; a plain config.ts is a source module
+    if (/\.(json|ya?ml|toml|ini|cfg|conf|lock|env)$/.test(name) || /^\.|.+\.config\.[^.]+$|^(dockerfile|makefile)$/.test(name)) return 'config';
+    return 'source';
+}
+
+// Glob pattern as a regular expression over the whole path. Supports **, *, ? and {a,b};
+// a pattern without a slash matches the file name in any directory, like in .gitignore.
+export function globToRegExp(glob: string): RegExp {
+    const pattern = glob.replace(/^\//, '');
+    let source = '';
+    let braces = 0;
+    for (let i = 0; i < pattern.length; i++) {
+        const c = pattern[i];
+        if (c === '*' && pattern[i + 1] === '*') {
+            // '**/' also matches no directory at all
+            if (pattern[i + 2] === '/') {
+                source += '(?:.*/)?';
+                i += 2;
+            } else {
+                source += '.*';
+                i++;
+            }
+        } else if (c === '*') {
+            source += '[^/]*';
+        } else if (c === '?') {
+            source += '[^/]';
+        } else if (c === '{') {
+            source += '(?:';
+            braces++;
+        } else if (c === '}' && braces > 0) {
+            source += ')';
+            braces--;
+        } else if (c === ',' && braces > 0) {
+            source += '|';
+        } else {
+            source += c.replace(/[.+^$()|[\]\\{}]/g, '\\$&');
+        }
+    }
+    return new RegExp(`${glob.includes('/') ? '^' : '(?:^|/)'}${source}$`);
+}
+
+// Reads rules written one per line as `<glob> => <group name>`; blank lines and # comments are skipped
+export function parseGroupRules(text: string): GroupRule[] {
+    const rules: GroupRule[] = [];
+    text.split('\n').forEach((line, i) => {
+        const trimmed = line.trim();
+        if (!trimmed || trimmed.startsWith('#')) return;
+        const separator = trimmed.indexOf('=>');
+        const pattern = separator === -1 ? '' : trimmed.slice(0, separator).trim();
+        const group = separator === -1 ? '' : trimmed.slice(separator + 2).trim();
+        if (!pattern || !group) {
+            throw new Error(`Rule ${i + 1} should look like 'src/api/** => API': ${trimmed}`);
+        }
+        rules.push({ pattern, group });
+    });
+    return rules;
+}
+
+// Buckets paths by key, keeping the order in which keys first appear
+function bucket(files: FileDiff[], keyOf: (file: FileDiff) => string): Map<string, string[]> {
+    const buckets = new Map<string, string[]>();
+    for (const file of files) {
+        const key = keyOf(file);
+        buckets.set(key, [...(buckets.get(key) ?? []), file.path]);
+    }
+    return buckets;
+}
+
+export function groupFiles(files: FileDiff[], strategy: GroupingStrategy, rules: GroupRule[] = []): GroupProposal[] {
+    switch (strategy) {
+        case 'directory':
+            return [...bucket(files, f => topLevelDirectory(f.path))]
+                .sort(([a], [b]) => a.localeCompare(b))
+                .map(([dir, paths]) => ({
+                    name: dir === '.' ? 'Root files' : dir,
+                    prompt: dir === '.' ? 'Changes to files at the repository root' : `Changes under ${dir}/`,
+                    files: paths,
+                }));
+        case 'kind': {
+            const buckets = bucket(files, f => fileKind(f.path));
+            // Source first, so tests and docs can follow the code they belong to
+            return (['source', 'tests', 'docs', 'config'] as FileKind[])
+                .filter(kind => buckets.has(kind))
+                .map(kind => ({ name: KIND_NAMES[kind], prompt: KIND_PROMPTS[kind], files: buckets.get(kind)! }));
+        }
+        case 'change': {
+            const buckets = bucket(files, f => f.status);
+            return (Object.keys(STATUS_NAMES) as FileDiff['status'][])
+                .filter(status => buckets.has(status))
+                .map(status => ({ name: STATUS_NAMES[status], prompt: STATUS_NAMES[status], files: buckets.get(status)! }));
+        }
+        case 'rules': {
+            if (rules.length === 0) throw new Error('Add at least one grouping rule');
+            const compiled = rules.map(rule => ({ ...rule, regexp: globToRegExp(rule.pattern) }));
+            const buckets = bucket(files, f => compiled.find(rule => rule.regexp.test(f.path))?.group ?? OTHER_GROUP);
+            const order = [...new Set([...rules.map(r => r.group), OTHER_GROUP])];
+            return order
+                .filter(group => buckets.has(group))
+                .map(group => {
+                    const patterns = rules.filter(r => r.group === group).map(r => r.pattern);
+                    return {
+                        name: group,
+                        prompt: patterns.length > 0 ? `Changes to files matching ${patterns.join(', ')}` : 'Changes not matched by any rule',
+                        files: buckets.get(group)!,
+                    };
+                });
+        }
+    }
+}
+
+export function saveGroupRules(text: string) {
+    localStorage.setItem('group-rules', text);
+}
+
+export function loadGroupRules(): string {
+    return localStorage.getItem('group-rules') ?? '';
+}
@@ -0,0 +1,185 @@
+import { FileDiff, getFileContent, listFiles } from './git-engine';
+
+// Changed file -> changed files it imports (added, modified, renamed or copied; deleted files can't be imported)
+export type ImportGraph = Map<string, string[]>;
+
+// A file of a group that imports a changed file its branch won't contain
+export interface DependencyWarning {
+    file: string;
+    imports: string;
+    // Name of the later group the imported file is in, or undefined if it is in no group
+    group?: string;
+}
+
+// TypeScript `paths` mapping, with patterns and targets resolved against baseUrl
+interface PathAlias {
+    prefix: string;
+    suffix: string;
+    // Patterns without '*' match only the specifier that is exactly the pattern
+    exact: boolean;
+    targets: string[];
+}
+
+const SOURCE_FILE = /\.(ts|tsx|js|jsx|mjs|cjs)$/;
+const EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.js', '.jsx', '.mjs', '.cjs', '.json'];
+// React Native resolves platform-specific files before the plain ones
+const PLATFORMS = ['', '.web', '.native', '.ios', '.android'];
+
+const IMPORT_PATTERNS = [
+    // import x from '...', import { x } from '...', export { x } from '...', export * from '...'
+    /\b(?:import|export)\s+(?:type\s+)?[^'"`;]*?\sfrom\s*['"]([^'"]+)['"]/g,
+    // import '...'
+    /\bimport\s*['"]([^'"]+)['"]/g,
+    // require('...'), import('...'), jest.mock('...')
+    /\b(?:require|import|mock)\s*\(\s*['"]([^'"]+)['"]\s*\)/g,
+];
+
+// Module specifiers a JS/TS file imports, re-exports or requires
+export function parseImports(source: string): string[] {
+    // Comments could hold example imports; strings are matched first so a '//' or '/*' inside one is kept
+    const code = source.replace(/('(?:[^'\\\n]|\\.)*'|"(?:[^"\\\n]|\\.)*"|`(?:[^`\\]|\\.)*`)|\/\*[\s\S]*?\*\/|\/\/.*$/gm, (match, string) => string ?? '');
+    const specifiers = new Set<string>();
+    for (const pattern of IMPORT_PATTERNS) {
+        for (const match of code.matchAll(pattern)) {
+            specifiers.add(match[1]);
+        }
+    }
+    return [...specifiers];
+}
+
+function normalize(path: string): string {
+    const parts: string[] = [];
+    for (const part of path.split('/')) {
+        if (part === '' || part === '.') continue;
+        if (part === '..') parts.pop();
+        else parts.push(part);
+    }
+    return parts.join('/');
+}
+
+function dirname(path: string): string {
+    const index = path.lastIndexOf('/');
+    return index === -1 ? '' : path.slice(0, index);
+}
+
+// tsconfig files are JSON with comments and trailing commas
+function parseJSONC(text: string): any {
+    const stripped = text
+        .replace(/("(?:[^"\\]|\\.)*")|\/\*[\s\S]*?\*\/|\/\/.*$/gm, (match, string) => string ?? '')
+        .replace(/,(\s*[}\]])/g, '$1');
+    return JSON.parse(stripped);
+}
+
+// Reads the `paths` of the root tsconfig.json (or jsconfig.json), following `extends` within the repository
+async function loadPathAliases(ref: string, files: Set<string>): Promise<PathAlias[]> {
+    let config = files.has('tsconfig.json') ? 'tsconfig.json' : files.has('jsconfig.json') ? 'jsconfig.json' : null;
+    for (let depth = 0; config && depth < 5; depth++) {
+        let options: any;
+        let extendsPath: string | undefined;
+        try {
+            const json = parseJSONC(await getFileContent(ref, config));
+            options = json.compilerOptions ?? {};
+            extendsPath = typeof json.extends === 'string' ? json.extends : undefined;
+        } catch {
+            return [];
+        }
+
+        if (options.paths) {
+            const baseUrl = normalize(`${dirname(config)}/${options.baseUrl ?? '.'}`);
+            return Object.entries(options.paths as Record<string, string[]>).map(([pattern, targets]) => {
+                const star = pattern.indexOf('*');
+                return {
+                    prefix: star === -1 ? pattern : pattern.slice(0, star),
+                    suffix: star === -1 ? '' : pattern.slice(star + 1),
+                    exact: star === -1,
+                    targets: targets.map(t => normalize(`${baseUrl}/${t}`)),
+                };
+            });
+        }
+
+        // Packages like expo/tsconfig.base aren't in the repository
+        const next = extendsPath?.startsWith('.') ? normalize(`${dirname(config)}/${extendsPath}`) : null;
+        config = next && files.has(next) ? next : next && files.has(`${next}.json`) ? `${next}.json` : null;
+    }
+    return [];
+}
+
+// Candidate paths of a module specifier, or none for packages
+function candidates(from: string, specifier: string, aliases: PathAlias[]): string[] {
+    if (specifier.startsWith('.')) {
+        return [normalize(`${dirname(from)}/${specifier}`)];
+    }
+    const result: string[] = [];
+    for (const alias of aliases) {
+        if (alias.exact) {
+            if (specifier === alias.prefix) result.push(...alias.targets);
+            continue;
+        }
+        if (!specifier.startsWith(alias.prefix) || !specifier.endsWith(alias.suffix)) continue;
+        if (specifier.length < alias.prefix.length + alias.suffix.length) continue;
+        const wildcard = specifier.slice(alias.prefix.length, specifier.length - alias.suffix.length);
+        result.push(...alias.targets.map(t => normalize(t.replace('*', wildcard))));
+    }
+    return result;
+}
+
+function resolveModule(base: string, files: Set<string>): string | undefined {
+    if (files.has(base)) return base;
+    for (const stem of [base, `${base}/index`]) {
+        for (const platform of PLATFORMS) {
+            for (const extension of EXTENSIONS) {
+                const path = `${stem}${platform}${extension}`;
+                if (files.has(path)) return path;
+            }
+        }
+    }
+    return undefined;
+}
+
+// Which changed files each changed JS/TS file imports, resolved against the tree of targetRef
+// with the tsconfig path aliases (such as `@/*`) of the repository
+export async function buildImportGraph(targetRef: string, changedFiles: FileDiff[]): Promise<ImportGraph> {
+    const present = changedFiles.filter(f => f.status !== 'deleted');
+    const changed = new Set(present.map(f => f.path));
+    const tree = new Set(await listFiles(targetRef));
+    const aliases = await loadPathAliases(targetRef, tree);
+
+    const graph: ImportGraph = new Map();
+    for (const file of present) {
+        if (!SOURCE_FILE.test(file.path)) continue;
+        const imports = new Set<string>();
+        for (const specifier of parseImports(await getFileContent(targetRef, file.path))) {
+            for (const candidate of candidates(file.path, specifier, aliases)) {
+                const resolved = resolveModule(candidate, tree);
+                if (!resolved) continue;
+                if (resolved !== file.path && changed.has(resolved)) imports.add(resolved);
+                break;
+            }
+        }
+        if (imports.size > 0) graph.set(file.path, [...imports]);
+    }
+    return graph;
+}
+
+// For each group (by id), its files that import a changed file which is only in later groups or in none.
+// A file counts as available to a group once any earlier group (or the group itself) contains it.
+export function findDependencyWarnings(groups: { id: string; name: string; files: string[] }[], graph: ImportGraph): Map<string, DependencyWarning[]> {
+    const firstGroup = new Map<string, number>();
+    groups.forEach((group, i) => group.files.forEach(f => {
+        if (!firstGroup.has(f)) firstGroup.set(f, i);
+    }));
+
+    const warnings = new Map<string, DependencyWarning[]>();
+    groups.forEach((group, i) => {
+        const list: DependencyWarning[] = [];
+        for (const file of group.files) {
+            for (const imported of graph.get(file) ?? []) {
+                const owner = firstGroup.get(imported);
+                if (owner !== undefined && owner <= i) continue;
+                list.push({ file, imports: imported, group: owner === undefined ? undefined : groups[owner].name });
+            }
+        }
+        if (list.length > 0) warnings.set(group.id, list);
+    });
+    return warnings;
+}
@@ -0,0 +1,67 @@
+// Persistent cache of raw LLM responses in IndexedDB, so re-running a split only sends
+// the files whose prompt or content changed since the last run.
+
+const DB_NAME = 'llm-cache';
+const STORE = 'responses';
+
+export interface CacheKeyParts {
+    provider: string;
+    model: string;
+    responseFormat: string;
+    prompt: string;
+    path: string;
+    baseContent: string;
+    targetContent: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, 1);
+            request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Let a later call try again instead of remembering the failure
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const request = action(db.transaction(STORE, mode).objectStore(STORE));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+export function isLLMCacheAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+}
+
+// SHA-256 over the parts, each prefixed with its length so no two different inputs join to the same text
+export async function llmCacheKey(parts: CacheKeyParts): Promise<string> {
+    const text = Object.values(parts).map(value => `${value.length}:${value}`).join('\n');
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export async function getCachedResponse(key: string): Promise<string | undefined> {
+    return await withStore<string | undefined>('readonly', store => store.get(key));
+}
+
+export async function setCachedResponse(key: string, response: string): Promise<void> {
+    await withStore('readwrite', store => store.put(response, key));
+}
+
+export async function countCachedResponses(): Promise<number> {
+    return await withStore('readonly', store => store.count());
+}
+
+export async function clearLLMCache(): Promise<void> {
+    await withStore('readwrite', store => store.clear());
+}
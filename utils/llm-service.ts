@@ -1,94 +1,683 @@
-export type LLMProvider = 'openai' | 'gemini';
+import { StructuredPatchHunk, applyPatch, createTwoFilesPatch, parsePatch } from 'diff';
+import { computeHunks, splitLines } from './diff-hunks';
+import { getCachedResponse, isLLMCacheAvailable, llmCacheKey, setCachedResponse } from './llm-cache';
+
+// 'openai-compatible' covers local servers that speak the OpenAI chat API (Ollama, llama.cpp server)
+export type LLMProvider = 'openai' | 'gemini' | 'openai-compatible' | 'anthropic';
+
+// 'file': the model returns the whole resulting file. 'patch': it returns a unified diff
+// against the base version, which is validated hunk by hunk before it is applied.
+export type LLMResponseFormat = 'file' | 'patch';
+
+export interface ProviderSettings {
+    model?: string;
+    temperature?: number;
+    // Context window of the model, in tokens
+    contextTokens?: number;
+    // Most tokens the model writes in one reply
+    outputTokens?: number;
+}
 
 export interface LLMConfig {
     provider: LLMProvider;
     apiKey: string;
     endpoint?: string;
+    responseFormat?: LLMResponseFormat;
+    // How many files are sent to the model at once
+    concurrency?: number;
+    // Let the model write the branch name, commit message and PR description of a group's branch
+    describeBranches?: boolean;
+    // false skips cached responses and asks the model again; fresh responses are still cached
+    useCache?: boolean;
+    // Model and temperature for each provider, so switching providers keeps their settings
+    providers?: Partial<Record<LLMProvider, ProviderSettings>>;
+}
+
+export const DEFAULT_MODELS: Record<LLMProvider, string> = {
+    'openai': 'gpt-4',
+    'gemini': 'gemini-pro',
+    'openai-compatible': 'llama3',
+    'anthropic': 'claude-3-5-sonnet-latest',
+};
+
+export const DEFAULT_TEMPERATURE = 0.3;
+
+export const DEFAULT_CONTEXT_TOKENS: Record<LLMProvider, number> = {
+    'openai': 8192,
+    'gemini': 32768,
+    'openai-compatible': 8192,
+    'anthropic': 200000,
+};
+
+export const DEFAULT_OUTPUT_TOKENS: Record<LLMProvider, number> = {
+    'openai': 4096,
+    'gemini': 8192,
+    'openai-compatible': 4096,
+    'anthropic': 8192,
+};
+
+// Context lines kept around each changed region when a file is sent in chunks
+const CHUNK_CONTEXT_LINES = 10;
+
+export function getModel(config: LLMConfig): string {
+    return config.providers?.[config.provider]?.model || DEFAULT_MODELS[config.provider];
+}
+
+export function getTemperature(config: LLMConfig): number {
+    return config.providers?.[config.provider]?.temperature ?? DEFAULT_TEMPERATURE;
+}
+
+export function getContextTokens(config: LLMConfig): number {
+    return config.providers?.[config.provider]?.contextTokens || DEFAULT_CONTEXT_TOKENS[config.provider];
+}
+
+export function getOutputTokens(config: LLMConfig): number {
+    return config.providers?.[config.provider]?.outputTokens || DEFAULT_OUTPUT_TOKENS[config.provider];
+}
+
+// Rough token count (about 4 characters per token), good enough to tell whether a request fits
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+export function getDefaultEndpoint(provider: LLMProvider, model = DEFAULT_MODELS[provider]): string {
+    switch (provider) {
+        case 'gemini':
+            return `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent`;
+        case 'openai-compatible':
+            return 'http://localhost:11434/v1/chat/completions';
+        case 'anthropic':
+            return 'https://api.anthropic.com/v1/messages';
+        default:
+            return 'https://api.openai.com/v1/chat/completions';
+    }
+}
+
+// Local OpenAI-compatible servers usually run without authentication
+export function isLLMConfigured(config: LLMConfig | null): config is LLMConfig {
+    return !!config && (!!config.apiKey || config.provider === 'openai-compatible');
+}
+
+// One file to split: the model sees where the file started, where it ended up, and the diff between the two
+export interface LLMFileInput {
+    path: string;
+    baseContent: string;
+    targetContent: string;
+    diff: string;
+}
+
+export interface LLMPrompt {
+    system: string;
+    user: string;
+}
+
+export function buildFileInput(path: string, baseContent: string, targetContent: string): LLMFileInput {
+    const diff = createTwoFilesPatch(`a/${path}`, `b/${path}`, baseContent, targetContent);
+    return { path, baseContent, targetContent, diff };
+}
+
+// A failed LLM request. `status` is the HTTP status, when the server answered at all.
+export class LLMRequestError extends Error {
+    constructor(message: string, public status?: number, public retryAfterMs?: number) {
+        super(message);
+        this.name = 'LLMRequestError';
+    }
+
+    // Rate limits and server errors are worth another try; anything else will fail the same way again
+    get retryable(): boolean {
+        return this.status === 429 || (this.status !== undefined && this.status >= 500);
+    }
+}
+
+// A reply that stopped at the output token limit is cut off, so it can't be used as a file or patch
+function truncatedError(config: LLMConfig): Error {
+    return new Error(`The reply hit the output limit of ${getOutputTokens(config)} tokens and is cut off`);
+}
+
+function retryAfterMs(response: Response): number | undefined {
+    const seconds = parseFloat(response.headers.get('retry-after') ?? '');
+    return isNaN(seconds) ? undefined : seconds * 1000;
+}
+
+// Shared by every provider, so results are comparable across them
+export function buildSplitPrompt(prompt: string, file: LLMFileInput, format: LLMResponseFormat = 'file'): LLMPrompt {
+    if (format === 'patch') {
+        return {
+            system: 'You are a code assistant that helps split large pull requests. You are given the base version of a file, the target version, and the unified diff between them. Write a unified diff against the base version that contains only the changes from the given diff that are relevant to the given prompt. Copy those hunks from the given diff; never add lines that are not in the target version. Return only the unified diff, nothing else.',
+            user: `Prompt: ${prompt}
+
+File: ${file.path}
+
+Base version:
+${file.baseContent}
+
+Target version:
+${file.targetContent}
+
+Unified diff (base -> target):
+${file.diff}
+
+Return a unified diff against the base version with only the changes relevant to the prompt.`,
+        };
+    }
+    return {
+        system: 'You are a code assistant that helps split large pull requests. You are given the base version of a file, the target version, and the unified diff between them. Produce the base version plus only the changes from the diff that are relevant to the given prompt; every other change must be left out, so those parts stay exactly as in the base version. Return only the resulting file content, nothing else.',
+        user: `Prompt: ${prompt}
+
+File: ${file.path}
+
+Base version:
+${file.baseContent}
+
+Target version:
+${file.targetContent}
+
+Unified diff (base -> target):
+${file.diff}
+
+Return the base version plus only the changes relevant to the prompt.`,
+    };
 }
 
-async function callOpenAI(prompt: string, fileContent: string, config: LLMConfig): Promise<string> {
-    const endpoint = config.endpoint || 'https://api.openai.com/v1/chat/completions';
+// Receives the whole response text so far, each time more of it has streamed in
+export type LLMPartialHandler = (text: string) => void;
+
+// Reads a server-sent events stream and returns the text it carries. `extract` pulls the
+// text delta out of one event's JSON payload; the OpenAI end-of-stream marker is skipped.
+async function readStreamedText(response: Response, extract: (event: any) => string | undefined, onPartial: LLMPartialHandler): Promise<string> {
+    if (!response.body) {
+        throw new Error('Streaming responses are not supported here');
+    }
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+    for (; ;) {
+        const { done, value } = await reader.read();
+        buffer += decoder.decode(value, { stream: !done });
+        const lines = buffer.split(/\r?\n/);
+        buffer = done ? '' : lines.pop()!;
+        for (const line of lines) {
+            if (!line.startsWith('data:')) continue;
+            const data = line.slice(5).trim();
+            if (data === '' || data === '[DONE]') continue;
+            const delta = extract(JSON.parse(data));
+            if (delta) {
+                text += delta;
+                onPartial(text);
+            }
+        }
+        if (done) return text;
+    }
+}
+
+// Also used for 'openai-compatible' servers
+async function callOpenAI({ system, user }: LLMPrompt, config: LLMConfig, signal?: AbortSignal, onPartial?: LLMPartialHandler): Promise<string> {
+    const endpoint = config.endpoint || getDefaultEndpoint(config.provider);
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) {
+        headers['Authorization'] = `Bearer ${config.apiKey}`;
+    }
 
     const response = await fetch(endpoint, {
         method: 'POST',
-        headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${config.apiKey}`,
-        },
+        signal,
+        headers,
         body: JSON.stringify({
-            model: 'gpt-4',
+            model: getModel(config),
             messages: [
-                {
-                    role: 'system',
-                    content: 'You are a code assistant that helps split large pull requests. Extract only the changes relevant to the given prompt from the provided file content. Return only the modified file content, nothing else.'
-                },
-                {
-                    role: 'user',
-                    content: `Prompt: ${prompt}\n\nFile Content:\n${fileContent}\n\nExtract only the changes relevant to the prompt and return the modified file.`
-                }
+                { role: 'system', content: system },
+                { role: 'user', content: user }
             ],
-            temperature: 0.3,
+            temperature: getTemperature(config),
+            stream: !!onPartial,
         }),
     });
 
     if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.statusText}`);
+        throw new LLMRequestError(`OpenAI API error: ${response.statusText}`, response.status, retryAfterMs(response));
+    }
+
+    if (onPartial) {
+        let finishReason: string | undefined;
+        const text = await readStreamedText(response, event => {
+            finishReason = event.choices?.[0]?.finish_reason ?? finishReason;
+            return event.choices?.[0]?.delta?.content;
+        }, onPartial);
+        if (finishReason === 'length') throw truncatedError(config);
+        return text;
     }
 
     const data = await response.json();
+    if (data.choices[0].finish_reason === 'length') throw truncatedError(config);
     return data.choices[0].message.content;
 }
 
-async function callGemini(prompt: string, fileContent: string, config: LLMConfig): Promise<string> {
-    const endpoint = config.endpoint || `https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent`;
+async function callGemini({ system, user }: LLMPrompt, config: LLMConfig, signal?: AbortSignal, onPartial?: LLMPartialHandler): Promise<string> {
+    const endpoint = config.endpoint || getDefaultEndpoint('gemini', getModel(config));
+    const url = onPartial
+        ? `${endpoint.replace(/:generateContent$/, ':streamGenerateContent')}?alt=sse&key=${config.apiKey}`
+        : `${endpoint}?key=${config.apiKey}`;
 
-    const response = await fetch(`${endpoint}?key=${config.apiKey}`, {
+    const response = await fetch(url, {
         method: 'POST',
+        signal,
         headers: {
             'Content-Type': 'application/json',
         },
         body: JSON.stringify({
             contents: [{
                 parts: [{
-                    text: `You are a code assistant that helps split large pull requests. Extract only the changes relevant to the given prompt from the provided file content. Return only the modified file content, nothing else.
-
-Prompt: ${prompt}
-
-File Content:
-${fileContent}
-
-Extract only the changes relevant to the prompt and return the modified file.`
+                    text: `${system}\n\n${user}`
                 }]
             }],
             generationConfig: {
-                temperature: 0.3,
+                temperature: getTemperature(config),
+                maxOutputTokens: getOutputTokens(config),
             }
         }),
     });
 
     if (!response.ok) {
-        throw new Error(`Gemini API error: ${response.statusText}`);
+        throw new LLMRequestError(`Gemini API error: ${response.statusText}`, response.status, retryAfterMs(response));
+    }
+
+    if (onPartial) {
+        let finishReason: string | undefined;
+        const text = await readStreamedText(response, event => {
+            finishReason = event.candidates?.[0]?.finishReason ?? finishReason;
+            return event.candidates?.[0]?.content?.parts
+                ?.map((part: { text?: string }) => part.text ?? '')
+                .join('');
+        }, onPartial);
+        if (finishReason === 'MAX_TOKENS') throw truncatedError(config);
+        return text;
     }
 
     const data = await response.json();
+    if (data.candidates[0].finishReason === 'MAX_TOKENS') throw truncatedError(config);
     return data.candidates[0].content.parts[0].text;
 }
 
-export async function callLLM(prompt: string, fileContent: string, config: LLMConfig): Promise<string> {
-    if (!config.apiKey) {
+async function callAnthropic({ system, user }: LLMPrompt, config: LLMConfig, signal?: AbortSignal, onPartial?: LLMPartialHandler): Promise<string> {
+    const endpoint = config.endpoint || getDefaultEndpoint('anthropic');
+
+    const response = await fetch(endpoint, {
+        method: 'POST',
+        signal,
+        headers: {
+            'Content-Type': 'application/json',
+            'x-api-key': config.apiKey,
+            'anthropic-version': '2023-06-01',
+            // Required for calls straight from the browser
+            'anthropic-dangerous-direct-browser-access': 'true',
+        },
+        body: JSON.stringify({
+            model: getModel(config),
+            max_tokens: getOutputTokens(config),
+            system,
+            messages: [
+                { role: 'user', content: user }
+            ],
+            temperature: getTemperature(config),
+            stream: !!onPartial,
+        }),
+    });
+
+    if (!response.ok) {
+        throw new LLMRequestError(`Anthropic API error: ${response.statusText}`, response.status, retryAfterMs(response));
+    }
+
+    if (onPartial) {
+        let stopReason: string | undefined;
+        const text = await readStreamedText(response, event => {
+            if (event.type === 'error') throw new Error(event.error?.message ?? 'Stream error');
+            if (event.type === 'message_delta') stopReason = event.delta?.stop_reason ?? stopReason;
+            return event.type === 'content_block_delta' ? event.delta?.text : undefined;
+        }, onPartial);
+        if (stopReason === 'max_tokens') throw truncatedError(config);
+        return text;
+    }
+
+    const data = await response.json();
+    if (data.stop_reason === 'max_tokens') throw truncatedError(config);
+    return data.content
+        .filter((block: { type: string }) => block.type === 'text')
+        .map((block: { text: string }) => block.text)
+        .join('');
+}
+
+// Sends any prompt to the configured provider, without caching. Streams the response when
+// `onPartial` is given, so callers can show it while it is written.
+export async function completeLLM(prompt: LLMPrompt, config: LLMConfig, signal?: AbortSignal, onPartial?: LLMPartialHandler): Promise<string> {
+    if (!isLLMConfigured(config)) {
         throw new Error('LLM API key not configured');
     }
 
     try {
         if (config.provider === 'gemini') {
-            return await callGemini(prompt, fileContent, config);
+            return await callGemini(prompt, config, signal, onPartial);
+        } else if (config.provider === 'anthropic') {
+            return await callAnthropic(prompt, config, signal, onPartial);
         } else {
-            return await callOpenAI(prompt, fileContent, config);
+            return await callOpenAI(prompt, config, signal, onPartial);
         }
     } catch (error: any) {
+        if (error.name === 'AbortError') throw error;
         console.error('LLM call failed:', error);
-        throw new Error(`LLM processing failed: ${error.message}`);
+        throw new LLMRequestError(`LLM processing failed: ${error.message}`, error.status, error.retryAfterMs);
+    }
+}
+
+// Asks for the split of one file, answering from the response cache when the same request was made before
+export async function callLLM(prompt: string, file: LLMFileInput, config: LLMConfig, signal?: AbortSignal, onPartial?: LLMPartialHandler): Promise<string> {
+    if (!isLLMConfigured(config)) {
+        throw new Error('LLM API key not configured');
+    }
+
+    // A broken cache only costs a request, so its errors are logged and otherwise ignored
+    let cacheKey: string | undefined;
+    if (isLLMCacheAvailable()) {
+        try {
+            cacheKey = await llmCacheKey({
+                provider: config.provider,
+                model: getModel(config),
+                responseFormat: config.responseFormat ?? 'file',
+                prompt,
+                path: file.path,
+                baseContent: file.baseContent,
+                targetContent: file.targetContent,
+            });
+            const cached = config.useCache === false ? undefined : await getCachedResponse(cacheKey);
+            if (cached !== undefined) {
+                onPartial?.(cached);
+                return cached;
+            }
+        } catch (error) {
+            console.warn('LLM cache lookup failed:', error);
+        }
+    }
+
+    const response = await completeLLM(buildSplitPrompt(prompt, file, config.responseFormat), config, signal, onPartial);
+    if (cacheKey) {
+        setCachedResponse(cacheKey, response).catch(error => console.warn('Caching LLM response failed:', error));
+    }
+    return response;
+}
+
+// Pulls the diff out of a model response: drops markdown fences and any prose around the
+// patch, reads empty lines in a hunk as blank context, and recomputes the @@ line counts,
+// which models often get wrong.
+function extractPatch(response: string): string {
+    const lines = response.replace(/\r\n/g, '\n').split('\n');
+    const start = lines.findIndex(line => line.startsWith('--- ') || line.startsWith('@@'));
+    if (start === -1) {
+        throw new Error('LLM response contains no unified diff');
     }
+
+    const body: string[] = [];
+    for (const line of lines.slice(start)) {
+        if (line.startsWith('```')) break;
+        body.push(line);
+    }
+
+    const result: string[] = [];
+    for (let i = 0; i < body.length; i++) {
+        const header = body[i].match(/^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@(.*)$/);
+        if (!header) {
+            if (body[i].startsWith('--- ') || body[i].startsWith('+++ ')) result.push(body[i]);
+            continue;
+        }
+        const hunkLines: string[] = [];
+        // Models often write blank context lines without the leading space
+        while (i + 1 < body.length && /^([ +\-\\]|$)/.test(body[i + 1]) && !body[i + 1].startsWith('--- ')) {
+            hunkLines.push(body[++i] || ' ');
+        }
+        // Empty lines after the last change are the end of the response, not context
+        while (hunkLines.length > 0 && hunkLines[hunkLines.length - 1] === ' ' && body[i] === '') {
+            hunkLines.pop();
+            i--;
+        }
+        const oldLines = hunkLines.filter(l => l[0] === ' ' || l[0] === '-').length;
+        const newLines = hunkLines.filter(l => l[0] === ' ' || l[0] === '+').length;
+        result.push(`@@ -${header[1]},${oldLines} +${header[2]},${newLines} @@${header[3]}`, ...hunkLines);
+    }
+    return result.join('\n') + '\n';
+}
+
+export interface PatchResult {
+    content: string;
+    // Human-readable reasons for each hunk of the model's patch that was not applied
+    rejected: string[];
+}
+
+// Applies a patch returned by the model (responseFormat 'patch') onto the base version.
+// Hunks that add a line the target version doesn't have are rejected, since the model made
+// that line up; the rest are applied. Throws if nothing valid is left or the patch doesn't apply.
+export function applyLLMPatch(file: LLMFileInput, response: string): PatchResult {
+    const [patch] = parsePatch(extractPatch(response));
+    if (!patch || patch.hunks.length === 0) {
+        throw new Error('LLM returned an empty patch');
+    }
+
+    const targetLines = new Set(splitLines(file.targetContent).map(line => line.replace(/\r?\n$/, '')));
+    const valid: StructuredPatchHunk[] = [];
+    const rejected: string[] = [];
+    for (const hunk of patch.hunks) {
+        const invented = hunk.lines.find(line => line.startsWith('+') && !targetLines.has(line.slice(1)));
+        if (invented !== undefined) {
+            rejected.push(`Hunk @@ -${hunk.oldStart} adds a line that is not in the target version: ${invented.slice(1).trim()}`);
+        } else {
+            valid.push(hunk);
+        }
+    }
+    if (valid.length === 0) {
+        throw new Error(`No valid hunks in LLM patch. ${rejected.join('; ')}`);
+    }
+
+    const content = applyPatch(file.baseContent, { ...patch, hunks: valid });
+    if (content === false) {
+        throw new Error('LLM patch does not apply to the base version');
+    }
+    return { content, rejected };
+}
+
+// Tokens a split request needs: the prompt, and a reply of at most the target version, or in
+// 'patch' format at most the given diff
+function estimateRequestTokens(prompt: string, file: LLMFileInput, config: LLMConfig): { input: number; reply: number } {
+    const { system, user } = buildSplitPrompt(prompt, file, config.responseFormat);
+    return {
+        input: estimateTokens(system) + estimateTokens(user),
+        reply: estimateTokens(config.responseFormat === 'patch' ? file.diff : file.targetContent),
+    };
+}
+
+// Whether the request and its reply fit the context window, and the reply the output limit
+function fitsModel({ input, reply }: { input: number; reply: number }, config: LLMConfig): boolean {
+    return input + reply <= getContextTokens(config) && reply <= getOutputTokens(config);
+}
+
+async function runSplit(prompt: string, file: LLMFileInput, config: LLMConfig, signal?: AbortSignal, onPartial?: LLMPartialHandler): Promise<PatchResult> {
+    const result = await callLLM(prompt, file, config, signal, onPartial);
+    if (config.responseFormat === 'patch') {
+        return applyLLMPatch(file, result);
+    }
+    return { content: result, rejected: [] };
+}
+
+// Range of lines (0-based, end exclusive) sent as one request when a file is too large
+interface Chunk {
+    startBase: number;
+    endBase: number;
+    startTarget: number;
+    endTarget: number;
+}
+
+function matchFinalNewline(text: string, reference: string): string {
+    const wanted = reference.endsWith('\n');
+    if (wanted && !text.endsWith('\n')) return text + '\n';
+    if (!wanted && text.endsWith('\n')) return text.slice(0, -1);
+    return text;
+}
+
+// Extracts the changes relevant to `prompt` from a file, in the configured response format.
+// Files that don't fit the model's context window are sent as chunks of changed regions with
+// surrounding context, and the results are stitched back into the base version.
+// `onPartial` gets the response as it streams in: in 'file' format the file so far (chunks
+// already stitched in), in 'patch' format the raw patch text of the current request.
+export async function splitFileWithLLM(prompt: string, file: LLMFileInput, config: LLMConfig, signal?: AbortSignal, onPartial?: LLMPartialHandler): Promise<PatchResult> {
+    if (fitsModel(estimateRequestTokens(prompt, file, config), config)) {
+        return await runSplit(prompt, file, config, signal, onPartial);
+    }
+
+    const baseLines = splitLines(file.baseContent);
+    const targetLines = splitLines(file.targetContent);
+    const excerpt = (chunk: Chunk) => buildFileInput(
+        `${file.path} (excerpt, lines ${chunk.startTarget + 1}-${chunk.endTarget})`,
+        baseLines.slice(chunk.startBase, chunk.endBase).join(''),
+        targetLines.slice(chunk.startTarget, chunk.endTarget).join(''),
+    );
+
+    // Merge neighbouring hunks into one chunk for as long as it fits
+    const chunks: Chunk[] = [];
+    let current: Chunk | null = null;
+    for (const hunk of computeHunks(file.baseContent, file.targetContent, CHUNK_CONTEXT_LINES)) {
+        const next: Chunk = {
+            startBase: hunk.startLineOriginal,
+            endBase: hunk.startLineOriginal + hunk.linesOriginal,
+            startTarget: hunk.startLineModified,
+            endTarget: hunk.startLineModified + hunk.linesModified,
+        };
+        const merged: Chunk | null = current
+            ? { startBase: current.startBase, startTarget: current.startTarget, endBase: next.endBase, endTarget: next.endTarget }
+            : null;
+        if (merged && fitsModel(estimateRequestTokens(prompt, excerpt(merged), config), config)) {
+            current = merged;
+            continue;
+        }
+        if (current) chunks.push(current);
+
+        const tokens = estimateRequestTokens(prompt, excerpt(next), config);
+        if (!fitsModel(tokens, config)) {
+            throw new Error(`${file.path} is too large for the model: the change at lines ${next.startTarget + 1}-${next.endTarget} alone needs ~${tokens.input + tokens.reply} tokens with a reply of ~${tokens.reply}, the context window is ${getContextTokens(config)} and replies are limited to ${getOutputTokens(config)}`);
+        }
+        current = next;
+    }
+    if (current) chunks.push(current);
+
+    const result: string[] = [];
+    const rejected: string[] = [];
+    let position = 0;
+    for (const chunk of chunks) {
+        const input = excerpt(chunk);
+        const done = result.join('') + baseLines.slice(position, chunk.startBase).join('');
+        const { content, rejected: chunkRejected } = await runSplit(prompt, input, config, signal, onPartial && (text => {
+            onPartial(config.responseFormat === 'patch' ? text : done + text);
+        }));
+        rejected.push(...chunkRejected.map(reason => `${input.path}: ${reason}`));
+        // Whole-file replies tend to drop or add the final newline, which would glue the excerpt
+        // to the next line; applied patches are exact
+        const stitched = config.responseFormat === 'patch' ? content : matchFinalNewline(content, input.targetContent);
+        result.push(...baseLines.slice(position, chunk.startBase), stitched);
+        position = chunk.endBase;
+    }
+    result.push(...baseLines.slice(position));
+    return { content: result.join(''), rejected };
+}
+
+export type LLMJobStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface LLMJobEvent {
+    id: string;
+    status: LLMJobStatus;
+    // 1-based number of the current try
+    attempt: number;
+    error?: string;
+}
+
+export interface LLMJob<T> {
+    id: string;
+    run: (signal: AbortSignal) => Promise<T>;
+}
+
+export type LLMJobResult<T> = { ok: true; value: T } | { ok: false; error: Error };
+
+export interface LLMQueueOptions {
+    concurrency?: number;
+    maxRetries?: number;
+    // First retry delay; each further retry waits twice as long
+    baseDelayMs?: number;
+    signal?: AbortSignal;
+    onStatus?: (event: LLMJobEvent) => void;
+}
+
+export const DEFAULT_CONCURRENCY = 2;
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+        const timer = setTimeout(() => {
+            signal.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new DOMException('Aborted', 'AbortError'));
+        };
+        signal.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+// Runs LLM jobs with at most `concurrency` in flight. Rate limits (429) and server errors (5xx)
+// are retried with exponential backoff; other errors fail the job right away. Aborting `signal`
+// cancels running requests and every job that hasn't started. Never rejects: each job's
+// outcome is in the returned map, keyed by job id.
+export async function runLLMJobs<T>(jobs: LLMJob<T>[], options: LLMQueueOptions = {}): Promise<Map<string, LLMJobResult<T>>> {
+    const { concurrency = DEFAULT_CONCURRENCY, maxRetries = 3, baseDelayMs = 1000, onStatus } = options;
+    const signal = options.signal ?? new AbortController().signal;
+    const results = new Map<string, LLMJobResult<T>>();
+
+    jobs.forEach(job => onStatus?.({ id: job.id, status: 'pending', attempt: 0 }));
+
+    let next = 0;
+    const worker = async () => {
+        while (next < jobs.length) {
+            const job = jobs[next++];
+            for (let attempt = 1; ; attempt++) {
+                if (signal.aborted) {
+                    results.set(job.id, { ok: false, error: new Error('Cancelled') });
+                    onStatus?.({ id: job.id, status: 'cancelled', attempt });
+                    break;
+                }
+                onStatus?.({ id: job.id, status: 'running', attempt });
+                try {
+                    const value = await job.run(signal);
+                    results.set(job.id, { ok: true, value });
+                    onStatus?.({ id: job.id, status: 'done', attempt });
+                    break;
+                } catch (e: any) {
+                    if (signal.aborted) continue; // Reported as cancelled on the next pass
+                    if (e instanceof LLMRequestError && e.retryable && attempt <= maxRetries) {
+                        const delay = e.retryAfterMs ?? baseDelayMs * 2 ** (attempt - 1);
+                        onStatus?.({ id: job.id, status: 'pending', attempt, error: `${e.message}; retrying in ${Math.round(delay / 1000)}s` });
+                        try {
+                            await sleep(delay, signal);
+                        } catch {
+                            // Aborted while waiting
+                        }
+                        continue;
+                    }
+                    results.set(job.id, { ok: false, error: e });
+                    onStatus?.({ id: job.id, status: 'failed', attempt, error: e.message });
+                    break;
+                }
+            }
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, jobs.length)) }, worker));
+    return results;
 }
 
 export function saveLLMConfig(config: LLMConfig) {
@@ -0,0 +1,225 @@
+import { Region, computeHunks, computeRegions, splitLines } from './diff-hunks';
+import { FileDiff, getChangedFiles, getChangedFilesBetween, getFileBlob, getMergeBase, getParentCommit, isBinaryBlob } from './git-engine';
+
+export interface CoverageIssue {
+    // mismatch: a split changes something the target branch doesn't
+    // duplicated: a change of the target branch is in more than one split
+    // uncovered: a change of the target branch is in no split
+    kind: 'mismatch' | 'duplicated' | 'uncovered';
+    path: string;
+    // Index into computeHunks(base, target) of the file; undefined for whole-file issues
+    hunk?: number;
+    branches: string[];
+    message: string;
+}
+
+interface Split {
+    branch: string;
+    parent: string;
+    // Paths the split's commit changes relative to its parent
+    touched: Set<string>;
+    // The split commit's changed files, by path
+    files: Map<string, FileDiff>;
+}
+
+function decode(blob: Uint8Array | null): string {
+    return blob ? Buffer.from(blob).toString('utf8') : '';
+}
+
+function sameBlob(a: Uint8Array | null, b: Uint8Array | null): boolean {
+    if (!a || !b) return a === b;
+    return Buffer.from(a).equals(Buffer.from(b));
+}
+
+// Identifies a change by the base lines it replaces and the text it puts there, so the
+// same change made in two different branches on top of the same base gets the same key
+function regionKey(region: Region, modifiedLines: string[]): string {
+    const text = modifiedLines.slice(region.startModified, region.endModified).join('');
+    return `${region.startOriginal}-${region.endOriginal}:${text}`;
+}
+
+function regionKeys(original: string, modified: string): Set<string> {
+    const modifiedLines = splitLines(modified);
+    return new Set(computeRegions(original, modified).map(r => regionKey(r, modifiedLines)));
+}
+
+// Checks that the split branches, combined on top of the merge-base, reproduce exactly the
+// changes of targetBranch: every change in exactly one split, and nothing else.
+// Each split is compared against its own parent commit, so its changes are only what its commit adds.
+export async function verifySplits(baseBranch: string, targetBranch: string, splitBranches: string[]): Promise<CoverageIssue[]> {
+    const mergeBase = await getMergeBase(baseBranch, targetBranch);
+    const targetFiles = await getChangedFiles(baseBranch, targetBranch);
+
+    const splits: Split[] = [];
+    for (const branch of splitBranches) {
+        const parent = await getParentCommit(branch);
+        if (!parent) throw new Error(`Split branch '${branch}' has no parent commit`);
+        const touched = new Set<string>();
+        const files = new Map<string, FileDiff>();
+        for (const file of await getChangedFilesBetween(parent, branch)) {
+            touched.add(file.path);
+            files.set(file.path, file);
+            if (file.oldPath && file.status === 'renamed') touched.add(file.oldPath);
+        }
+        splits.push({ branch, parent, touched, files });
+    }
+
+    const issues: CoverageIssue[] = [];
+
+    // Changes that only exist in a split
+    const expected = new Set<string>();
+    for (const file of targetFiles) {
+        expected.add(file.path);
+        if (file.oldPath && file.status === 'renamed') expected.add(file.oldPath);
+    }
+    for (const split of splits) {
+        for (const path of split.touched) {
+            if (!expected.has(path)) {
+                issues.push({ kind: 'mismatch', path, branches: [split.branch], message: `Changed in '${split.branch}' but not in '${targetBranch}'` });
+            }
+        }
+    }
+
+    for (const file of targetFiles) {
+        const touching = splits.filter(s => s.touched.has(file.path));
+        issues.push(...await verifyFile(file, mergeBase, targetBranch, touching));
+        if (touching.length > 0) issues.push(...verifyMode(file, targetBranch, touching));
+        if (file.status === 'renamed' && file.oldPath) {
+            issues.push(...await verifyRenameSource(file, file.oldPath, splits));
+        }
+    }
+
+    return issues;
+}
+
+// A rename also deletes its old path, which has to happen in exactly one split
+async function verifyRenameSource(file: FileDiff, oldPath: string, splits: Split[]): Promise<CoverageIssue[]> {
+    const deleters: string[] = [];
+    for (const split of splits) {
+        if (!split.touched.has(oldPath)) continue;
+        if (await getFileBlob(split.parent, oldPath) && !await getFileBlob(split.branch, oldPath)) {
+            deleters.push(split.branch);
+        }
+    }
+    if (deleters.length === 0) {
+        return [{ kind: 'uncovered', path: oldPath, branches: [], message: `Not deleted in any split (renamed to ${file.path})` }];
+    }
+    if (deleters.length > 1) {
+        return [{ kind: 'duplicated', path: oldPath, branches: deleters, message: `Deleted in ${deleters.length} splits (renamed to ${file.path})` }];
+    }
+    return [];
+}
+
+// A split may keep the file mode of its parent or set the target's; a mode change of the
+// target has to be in exactly one split
+function verifyMode(file: FileDiff, targetBranch: string, splits: Split[]): CoverageIssue[] {
+    if (!file.mode) return [];
+    const { path } = file;
+    const issues: CoverageIssue[] = [];
+    const setters: string[] = [];
+    for (const split of splits) {
+        const splitFile = split.files.get(path);
+        if (!splitFile?.mode || splitFile.mode === splitFile.oldMode) continue;
+        if (splitFile.mode === file.mode) {
+            setters.push(split.branch);
+        } else {
+            issues.push({ kind: 'mismatch', path, branches: [split.branch], message: `Mode ${splitFile.mode} in '${split.branch}', ${file.mode} in '${targetBranch}'` });
+        }
+    }
+    // Added files get their mode along with their content
+    if (file.oldMode && file.oldMode !== file.mode) {
+        if (setters.length === 0 && issues.length === 0) {
+            issues.push({ kind: 'uncovered', path, branches: [], message: `Mode change ${file.oldMode} → ${file.mode} not in any split` });
+        } else if (setters.length > 1) {
+            issues.push({ kind: 'duplicated', path, branches: setters, message: `Mode change ${file.oldMode} → ${file.mode} in ${setters.length} splits` });
+        }
+    }
+    return issues;
+}
+
+async function verifyFile(file: FileDiff, mergeBase: string, targetBranch: string, splits: Split[]): Promise<CoverageIssue[]> {
+    const { path } = file;
+    if (splits.length === 0) {
+        return [{ kind: 'uncovered', path, branches: [], message: `Not in any split (${file.status})` }];
+    }
+
+    const baseBlob = await getFileBlob(mergeBase, file.oldPath ?? path);
+    const targetBlob = await getFileBlob(targetBranch, path);
+    const issues: CoverageIssue[] = [];
+
+    // Binary files can only be covered whole
+    if ((baseBlob && isBinaryBlob(baseBlob)) || (targetBlob && isBinaryBlob(targetBlob))) {
+        const owners: string[] = [];
+        for (const split of splits) {
+            const blob = await getFileBlob(split.branch, path);
+            if (sameBlob(blob, await getFileBlob(split.parent, path))) continue;
+            owners.push(split.branch);
+            if (!sameBlob(blob, targetBlob)) {
+                issues.push({ kind: 'mismatch', path, branches: [split.branch], message: `Binary content in '${split.branch}' differs from '${targetBranch}'` });
+            }
+        }
+        if (owners.length > 1) {
+            issues.push({ kind: 'duplicated', path, branches: owners, message: `Changed in ${owners.length} splits` });
+        }
+        return issues;
+    }
+
+    const base = decode(baseBlob);
+    const target = decode(targetBlob);
+    const targetLines = splitLines(target);
+    const targetRegions = computeRegions(base, target);
+    const targetKeys = targetRegions.map(r => regionKey(r, targetLines));
+    const hunks = computeHunks(base, target);
+
+    // Branches that carry each target region
+    const owners = new Map<string, string[]>(targetKeys.map(key => [key, []]));
+
+    for (const split of splits) {
+        const splitBlob = await getFileBlob(split.branch, path);
+        const parentKeys = regionKeys(base, decode(await getFileBlob(split.parent, path)));
+        const splitText = decode(splitBlob);
+        const splitLinesOfFile = splitLines(splitText);
+
+        let mismatched = 0;
+        let own = 0;
+        for (const region of computeRegions(base, splitText)) {
+            const key = regionKey(region, splitLinesOfFile);
+            if (parentKeys.has(key)) continue;
+            own++;
+            const regionOwners = owners.get(key);
+            if (regionOwners) {
+                regionOwners.push(split.branch);
+            } else {
+                mismatched++;
+            }
+        }
+
+        if (mismatched > 0) {
+            issues.push({ kind: 'mismatch', path, branches: [split.branch], message: `${mismatched} change${mismatched === 1 ? '' : 's'} in '${split.branch}' not in '${targetBranch}'` });
+        }
+        if (!targetBlob && splitBlob && own > 0) {
+            issues.push({ kind: 'mismatch', path, branches: [split.branch], message: `Emptied instead of deleted in '${split.branch}'` });
+        }
+    }
+
+    hunks.forEach((hunk, index) => {
+        const end = hunk.startLineOriginal + hunk.linesOriginal;
+        const inHunk = targetRegions
+            .map((region, i) => ({ region, key: targetKeys[i] }))
+            .filter(({ region }) => region.startOriginal >= hunk.startLineOriginal && region.endOriginal <= end);
+        const lines = `lines ${hunk.startLineModified + 1}-${hunk.startLineModified + hunk.linesModified}`;
+
+        const uncovered = inHunk.filter(({ key }) => owners.get(key)!.length === 0);
+        if (uncovered.length > 0) {
+            const partial = uncovered.length < inHunk.length ? 'Partly not' : 'Not';
+            issues.push({ kind: 'uncovered', path, hunk: index, branches: [], message: `Hunk ${index + 1} (${lines}): ${partial} in any split` });
+        }
+
+        const duplicated = [...new Set(inHunk.flatMap(({ key }) => owners.get(key)!.length > 1 ? owners.get(key)! : []))];
+        if (duplicated.length > 0) {
+            issues.push({ kind: 'duplicated', path, hunk: index, branches: duplicated, message: `Hunk ${index + 1} (${lines}): in ${duplicated.map(b => `'${b}'`).join(', ')}` });
+        }
+    });
+
+    return issues;
+}
@@ -0,0 +1,123 @@
+// A small line-by-line highlighter for the diff view. Each line is tokenized on its own, since
+// hunks show lines out of their context anyway; a block comment or string that spans lines is
+// only recognized on the line it starts on.
+
+export type Language = 'typescript' | 'json' | 'css' | 'markdown' | 'python';
+
+export type TokenType = 'plain' | 'comment' | 'string' | 'number' | 'keyword' | 'literal' | 'property';
+
+export interface Token {
+    type: TokenType;
+    text: string;
+}
+
+type Rule = [TokenType, RegExp];
+
+const EXTENSIONS: Record<string, Language> = {
+    ts: 'typescript',
+    tsx: 'typescript',
+    mts: 'typescript',
+    cts: 'typescript',
+    js: 'typescript',
+    jsx: 'typescript',
+    mjs: 'typescript',
+    cjs: 'typescript',
+    json: 'json',
+    jsonc: 'json',
+    css: 'css',
+    scss: 'css',
+    less: 'css',
+    md: 'markdown',
+    mdx: 'markdown',
+    markdown: 'markdown',
+    py: 'python',
+    pyi: 'python',
+};
+
+const NUMBER: Rule = ['number', /(?:0[xXbBoO][\da-fA-F_]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?n?)\b/y];
+
+// Rules are tried in order at each position; the first match wins. Identifiers are matched as
+// plain text so keywords are only found as whole words.
+const RULES: Record<Language, Rule[]> = {
+    typescript: [
+        ['comment', /\/\/.*|\/\*.*?(?:\*\/|$)/y],
+        ['string', /'(?:[^'\\]|\\.)*'?|"(?:[^"\\]|\\.)*"?|`(?:[^`\\]|\\.)*`?/y],
+        NUMBER,
+        ['keyword', /(?:abstract|as|async|await|break|case|catch|class|const|continue|debugger|declare|default|delete|do|else|enum|export|extends|finally|for|from|function|if|implements|import|in|instanceof|interface|let|namespace|new|of|private|protected|public|readonly|return|satisfies|static|super|switch|this|throw|try|type|typeof|var|void|while|with|yield)\b/y],
+        ['literal', /(?:true|false|null|undefined|NaN|Infinity)\b/y],
+        ['plain', /[A-Za-z_$][\w$]*/y],
+    ],
+    json: [
+        ['comment', /\/\/.*|\/\*.*?(?:\*\/|$)/y],
+        ['property', /"(?:[^"\\]|\\.)*"(?=\s*:)/y],
+        ['string', /"(?:[^"\\]|\\.)*"?/y],
+        ['number', /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y],
+        ['literal', /(?:true|false|null)\b/y],
+    ],
+    css: [
+        ['comment', /\/\*.*?(?:\*\/|$)/y],
+        ['string', /'(?:[^'\\]|\\.)*'?|"(?:[^"\\]|\\.)*"?/y],
+        ['keyword', /@[\w-]+|!important\b/y],
+        // A declaration's name: first on its line or after '{' or ';', and not a selector followed by '{'
+        ['property', /(?<=^\s*|[{;]\s*)-{0,2}[a-zA-Z][\w-]*(?=\s*:(?![^;{]*\{))/y],
+        ['number', /#[\da-fA-F]{3,8}\b|-?(?:\d*\.)?\d+(?:px|em|rem|%|vh|vw|vmin|vmax|ch|ex|pt|s|ms|deg|fr)?/y],
+        ['plain', /[\w-]+/y],
+    ],
+    markdown: [
+        ['keyword', /^\s{0,3}#{1,6}\s.*/y],
+        ['comment', /^\s{0,3}>.*/y],
+        ['keyword', /^\s*(?:[-*+]|\d+[.)])\s/y],
+        ['string', /`[^`]*`?/y],
+        ['property', /!?\[[^\]]*\]\([^)]*\)/y],
+        ['literal', /\*\*[^*]+\*\*|__[^_]+__|\*[^*\s][^*]*\*|_[^_\s][^_]*_/y],
+        ['plain', /\w+/y],
+    ],
+    python: [
+        ['comment', /#.*/y],
+        ['string', /[rRbBuUfF]{0,2}(?:"""|''')(?:.*?(?:"""|''')|.*)|[rRbBuUfF]{0,2}(?:'(?:[^'\\]|\\.)*'?|"(?:[^"\\]|\\.)*"?)/y],
+        ['property', /@[\w.]+/y],
+        NUMBER,
+        ['keyword', /(?:and|as|assert|async|await|break|class|continue|def|del|elif|else|except|finally|for|from|global|if|import|in|is|lambda|match|nonlocal|not|or|pass|raise|return|try|while|with|yield)\b/y],
+        ['literal', /(?:True|False|None|self|cls)\b/y],
+        ['plain', /[A-Za-z_]\w*/y],
+    ],
+};
+
+export function languageOf(path: string): Language | undefined {
+    const extension = path.split('/').pop()!.split('.').pop()!.toLowerCase();
+    return EXTENSIONS[extension];
+}
+
+export function highlightLine(text: string, language: Language | undefined): Token[] {
+    if (!language) return [{ type: 'plain', text }];
+    const rules = RULES[language];
+    const tokens: Token[] = [];
+    const push = (type: TokenType, value: string) => {
+        const last = tokens[tokens.length - 1];
+        if (last && last.type === type) {
+            last.text += value;
+        } else {
+            tokens.push({ type, text: value });
+        }
+    };
+
+    let position = 0;
+    while (position < text.length) {
+        let matched = false;
+        for (const [type, pattern] of rules) {
+            pattern.lastIndex = position;
+            const match = pattern.exec(text);
+            if (match && match[0].length > 0) {
+                push(type, match[0]);
+                position += match[0].length;
+                matched = true;
+                break;
+            }
+        }
+        if (!matched) {
+            push('plain', text[position]);
+            position++;
+        }
+    }
+    return tokens;
+}